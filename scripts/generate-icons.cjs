@@ -45,7 +45,13 @@ function createChunk(type, data) {
   return Buffer.concat([length, typeBuffer, data, crcBuffer]);
 }
 
-function createPNG(size) {
+// Icon variants: the regular icon and a greyed-out one shown while tracking is paused
+const variants = [
+  { suffix: '', color: [25, 118, 210] },
+  { suffix: '-paused', color: [158, 158, 158] }
+];
+
+function createPNG(size, color) {
   // PNG signature
   const signature = Buffer.from([137, 80, 78, 71, 13, 10, 26, 10]);
 
@@ -93,29 +99,29 @@ function createPNG(size) {
 
           // Hour hand (pointing up)
           if (x >= cx - handWidth && x <= cx + handWidth && y >= cy - hourHandLength && y <= cy) {
-            rawData[pixelStart] = 25;
-            rawData[pixelStart + 1] = 118;
-            rawData[pixelStart + 2] = 210;
+            rawData[pixelStart] = color[0];
+            rawData[pixelStart + 1] = color[1];
+            rawData[pixelStart + 2] = color[2];
           }
 
           // Minute hand (pointing right)
           if (y >= cy - handWidth && y <= cy + handWidth && x >= cx && x <= cx + minuteHandLength) {
-            rawData[pixelStart] = 25;
-            rawData[pixelStart + 1] = 118;
-            rawData[pixelStart + 2] = 210;
+            rawData[pixelStart] = color[0];
+            rawData[pixelStart + 1] = color[1];
+            rawData[pixelStart + 2] = color[2];
           }
 
           // Center dot
           if (dist <= size * 0.08) {
-            rawData[pixelStart] = 25;
-            rawData[pixelStart + 1] = 118;
-            rawData[pixelStart + 2] = 210;
+            rawData[pixelStart] = color[0];
+            rawData[pixelStart + 1] = color[1];
+            rawData[pixelStart + 2] = color[2];
           }
         } else {
-          // Outer ring - blue
-          rawData[pixelStart] = 25;
-          rawData[pixelStart + 1] = 118;
-          rawData[pixelStart + 2] = 210;
+          // Outer ring
+          rawData[pixelStart] = color[0];
+          rawData[pixelStart + 1] = color[1];
+          rawData[pixelStart + 2] = color[2];
         }
       } else {
         // Outside - white (will be transparent in browser)
@@ -138,11 +144,13 @@ function createPNG(size) {
 
 // Generate icons
 const sizes = [16, 32, 48, 128];
-for (const size of sizes) {
-  const png = createPNG(size);
-  const filePath = path.join(iconsDir, `icon${size}.png`);
-  fs.writeFileSync(filePath, png);
-  console.log(`Created ${filePath}`);
+for (const variant of variants) {
+  for (const size of sizes) {
+    const png = createPNG(size, variant.color);
+    const filePath = path.join(iconsDir, `icon${size}${variant.suffix}.png`);
+    fs.writeFileSync(filePath, png);
+    console.log(`Created ${filePath}`);
+  }
 }
 
 console.log('Icons generated successfully!');
@@ -1,27 +1,22 @@
-import axios, { AxiosError, type InternalAxiosRequestConfig } from 'axios';
-import type { ActivityEvent, ActivityHeartbeat, ActivityWindow } from '@shared/types';
-import {
-  API_BASE_URL,
-  API_ACTIVITY_ENDPOINT,
-  API_LOGIN_ENDPOINT,
-  API_REFRESH_ENDPOINT,
-  API_LOGOUT_ENDPOINT,
-  log,
-  logError
-} from '@shared/config';
+import axios, { AxiosError, type AxiosInstance, type InternalAxiosRequestConfig } from 'axios';
+import type {
+  ActivityGap,
+  ActivityHeartbeat,
+  ActivityHeartbeatBatch,
+  ActivityWindow,
+  ApiEndpoints,
+  OAuthSettings,
+  QueuedHeartbeat,
+  ServerProfile,
+  ServerSettings
+} from '@shared/types';
+import { DEFAULT_SETTINGS, log, logError } from '@shared/config';
 import { getTimestamp } from '@shared/utils';
-import { addQueuedEvents, getQueuedEvents, clearQueuedEvents } from './storage';
 import { authManager } from './auth';
+import { getDeviceInfo } from './device';
 
-// Create axios instance
-export const API = axios.create({
-  baseURL: API_BASE_URL,
-  headers: {
-    'Content-Type': 'application/json',
-    'Accept': 'application/json',
-  },
-  timeout: 10000,
-});
+// Server profile the API instance currently talks to
+let currentServer: ServerProfile = DEFAULT_SETTINGS.serverProfiles[0];
 
 // Queue for failed requests during token refresh
 let isRefreshing = false;
@@ -41,96 +36,186 @@ function processQueue(error: unknown, token: string | null = null) {
   failedQueue = [];
 }
 
-// Request interceptor to add Bearer token
-API.interceptors.request.use(
-  (config: InternalAxiosRequestConfig) => {
-    // Don't add token to auth endpoints
-    const isAuthEndpoint = config.url &&
-      (config.url.includes(API_LOGIN_ENDPOINT) ||
-       config.url.includes(API_REFRESH_ENDPOINT));
-
-    if (!isAuthEndpoint) {
-      const accessToken = authManager.getAccessToken();
-      if (accessToken) {
-        config.headers.Authorization = `Bearer ${accessToken}`;
+/**
+ * Create an axios instance for a server, with token handling attached
+ */
+function createApiClient(server: ServerSettings): AxiosInstance {
+  const client = axios.create({
+    baseURL: server.baseUrl,
+    headers: {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json',
+    },
+    timeout: 10000,
+  });
+
+  // Request interceptor to add Bearer token
+  client.interceptors.request.use(
+    (config: InternalAxiosRequestConfig) => {
+      // Don't add token to auth endpoints
+      const isAuthEndpoint = config.url &&
+        (config.url.includes(server.endpoints.login) ||
+         config.url.includes(server.endpoints.refresh) ||
+         config.url.includes(server.endpoints.pairing) ||
+         config.url.includes(server.endpoints.pairingToken));
+
+      if (!isAuthEndpoint) {
+        const accessToken = authManager.getAccessToken();
+        if (accessToken) {
+          config.headers.Authorization = `Bearer ${accessToken}`;
+        }
       }
+      return config;
+    },
+    (error) => {
+      return Promise.reject(error);
     }
-    return config;
-  },
-  (error) => {
-    return Promise.reject(error);
-  }
-);
-
-// Response interceptor to handle token refresh
-API.interceptors.response.use(
-  (response) => {
-    return response;
-  },
-  async (error: AxiosError) => {
-    const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
-
-    // Don't retry auth endpoints to avoid infinite loops
-    const isAuthEndpoint = originalRequest?.url &&
-      (originalRequest.url.includes(API_LOGIN_ENDPOINT) ||
-       originalRequest.url.includes(API_REFRESH_ENDPOINT) ||
-       originalRequest.url.includes(API_LOGOUT_ENDPOINT));
-
-    // Handle 401 Unauthorized (but skip auth endpoints)
-    if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint) {
-      if (isRefreshing) {
-        // If already refreshing, queue this request
-        return new Promise((resolve, reject) => {
-          failedQueue.push({ resolve, reject });
-        })
-          .then(() => {
-            return API(originalRequest);
+  );
+
+  // Response interceptor to handle token refresh
+  client.interceptors.response.use(
+    (response) => {
+      return response;
+    },
+    async (error: AxiosError) => {
+      const originalRequest = error.config as InternalAxiosRequestConfig & { _retry?: boolean };
+
+      // Don't retry auth endpoints to avoid infinite loops
+      const isAuthEndpoint = originalRequest?.url &&
+        (originalRequest.url.includes(server.endpoints.login) ||
+         originalRequest.url.includes(server.endpoints.refresh) ||
+         originalRequest.url.includes(server.endpoints.logout) ||
+         originalRequest.url.includes(server.endpoints.pairing) ||
+         originalRequest.url.includes(server.endpoints.pairingToken));
+
+      // Handle 401 Unauthorized (but skip auth endpoints)
+      if (error.response?.status === 401 && originalRequest && !originalRequest._retry && !isAuthEndpoint) {
+        if (isRefreshing) {
+          // If already refreshing, queue this request
+          return new Promise((resolve, reject) => {
+            failedQueue.push({ resolve, reject });
           })
-          .catch((err) => {
-            return Promise.reject(err);
-          });
-      }
+            .then(() => {
+              return client(originalRequest);
+            })
+            .catch((err) => {
+              return Promise.reject(err);
+            });
+        }
 
-      originalRequest._retry = true;
-      isRefreshing = true;
+        originalRequest._retry = true;
+        isRefreshing = true;
 
-      try {
-        log('Received 401, attempting token refresh');
-        const refreshed = await authManager.forceRefresh();
+        try {
+          log('Received 401, attempting token refresh');
+          const refreshed = await authManager.forceRefresh();
 
-        if (refreshed) {
-          const newToken = authManager.getAccessToken();
-          if (newToken) {
-            originalRequest.headers.Authorization = `Bearer ${newToken}`;
-            processQueue(null, newToken);
-            log('Token refreshed successfully, retrying request');
-            return API(originalRequest);
+          if (refreshed) {
+            const newToken = authManager.getAccessToken();
+            if (newToken) {
+              originalRequest.headers.Authorization = `Bearer ${newToken}`;
+              processQueue(null, newToken);
+              log('Token refreshed successfully, retrying request');
+              return client(originalRequest);
+            }
           }
-        }
 
-        // If refresh failed, clear queue and reject
-        processQueue(new Error('Token refresh failed'), null);
-        return Promise.reject(error);
-      } catch (refreshError) {
-        processQueue(refreshError, null);
-        return Promise.reject(refreshError);
-      } finally {
-        isRefreshing = false;
+          // If refresh failed, clear queue and reject
+          processQueue(new Error('Token refresh failed'), null);
+          return Promise.reject(error);
+        } catch (refreshError) {
+          processQueue(refreshError, null);
+          return Promise.reject(refreshError);
+        } finally {
+          isRefreshing = false;
+        }
       }
+
+      return Promise.reject(error);
     }
+  );
 
-    return Promise.reject(error);
-  }
-);
+  return client;
+}
+
+// Axios instance for the active server profile, replaced by configureApi
+export let API = createApiClient(currentServer);
+
+/**
+ * Point the API client at a server profile (or the changed settings of the active one)
+ */
+export function configureApi(profile: ServerProfile): void {
+  if (JSON.stringify(profile) === JSON.stringify(currentServer)) return;
+
+  currentServer = profile;
+  API = createApiClient(profile);
+  // A different server may well speak the batch format
+  isBatchUnsupported = false;
+  log('API configured for profile', profile.name, 'at', profile.baseUrl);
+}
+
+/**
+ * Profile all requests currently go to. Queued data is only sent while its profile is active.
+ */
+export function getActiveProfileId(): string {
+  return currentServer.id;
+}
+
+export function getApiEndpoints(): ApiEndpoints {
+  return currentServer.endpoints;
+}
+
+export function getOAuthSettings(): OAuthSettings {
+  return currentServer.oauth;
+}
+
+/**
+ * Whether both the API client and the auth tokens still belong to a profile.
+ * Sends check this after every await: a profile switch in between must not post one
+ * profile's data to the next profile's server with the next profile's token.
+ */
+function isProfileActive(profileId: string): boolean {
+  return currentServer.id === profileId && authManager.getProfileId() === profileId;
+}
+
+/**
+ * Idempotency key of a single window send - the same window revision always maps to the same key
+ */
+function getIdempotencyKey(window: ActivityWindow): string {
+  return `${window.id}:${window.revision}`;
+}
 
 /**
- * Send heartbeat with activity window to the API
- * Returns true if successful, false otherwise
+ * Idempotency key of a batch - a digest over the keys of all windows in it
+ */
+async function getBatchIdempotencyKey(windows: ActivityWindow[]): Promise<string> {
+  const keys = windows.map(getIdempotencyKey).join('\n');
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(keys));
+  const hex = Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+  return `batch:${hex}`;
+}
+
+/**
+ * Send heartbeat with activity window to the API of the profile it was recorded for
+ * Replayed heartbeats pass their original heartbeatAt
+ * Returns true if successful, false otherwise (also if the profile is no longer active)
  */
 export async function sendHeartbeat(
+  profileId: string,
   window: ActivityWindow | null,
-  isIdle: boolean
+  isIdle: boolean,
+  heartbeatAt: string = getTimestamp(),
+  gap?: ActivityGap
 ): Promise<boolean> {
+  const client = API;
+  const { endpoints } = currentServer;
+  if (!isProfileActive(profileId)) {
+    log('Server profile changed, not sending heartbeat');
+    return false;
+  }
+
   // Check if authenticated
   const accessToken = authManager.getAccessToken();
   if (!accessToken) {
@@ -138,30 +223,44 @@ export async function sendHeartbeat(
     return false;
   }
 
-  // If no window data and not idle, skip heartbeat
-  if (!window && !isIdle) {
+  // If no window data, not idle and no gap to report, skip heartbeat
+  if (!window && !isIdle && !gap) {
     log('No window data to send, skipping heartbeat');
     return true;
   }
 
   // Build heartbeat with flattened window structure
   const heartbeat: ActivityHeartbeat = {
-    heartbeatAt: getTimestamp(),
-    isIdle
+    heartbeatAt,
+    isIdle,
+    device: await getDeviceInfo()
   };
 
   // Include window data if present
   if (window) {
+    heartbeat.windowId = window.id;
+    heartbeat.revision = window.revision;
     heartbeat.windowStart = window.windowStart;
     heartbeat.windowMinutes = window.windowMinutes;
     heartbeat.isFinal = window.isFinal;
     heartbeat.activities = window.activities;
   }
 
+  if (gap) {
+    heartbeat.gap = gap;
+  }
+
+  if (!isProfileActive(profileId)) {
+    log('Server profile changed, not sending heartbeat');
+    return false;
+  }
+
   try {
     log('Sending heartbeat:', heartbeat);
 
-    await API.post(API_ACTIVITY_ENDPOINT, heartbeat);
+    await client.post(endpoints.activity, heartbeat, {
+      headers: window ? { 'Idempotency-Key': getIdempotencyKey(window) } : undefined
+    });
 
     log('Heartbeat sent successfully');
     return true;
@@ -171,12 +270,118 @@ export async function sendHeartbeat(
   }
 }
 
+// Set once the server rejects the batch format, so later uploads go straight to single posts
+let isBatchUnsupported = false;
+
+type QueuedWindowHeartbeat = QueuedHeartbeat & { window: ActivityWindow };
+
+/**
+ * Send queued heartbeats, consecutive window entries in one request each.
+ * Idle-only and gap entries are about their own point in time, so they keep
+ * their own post with their original heartbeatAt.
+ * Returns how many entries, from the start, the server acknowledged.
+ */
+export async function sendHeartbeatBatch(profileId: string, entries: QueuedHeartbeat[]): Promise<number> {
+  let acknowledged = 0;
+
+  while (acknowledged < entries.length) {
+    const entry = entries[acknowledged];
+    if (!entry.window) {
+      if (!await sendHeartbeat(profileId, null, entry.isIdle, entry.heartbeatAt, entry.gap)) break;
+      acknowledged += 1;
+      continue;
+    }
+
+    const run: QueuedWindowHeartbeat[] = [];
+    for (let i = acknowledged; i < entries.length && entries[i].window; i++) {
+      run.push(entries[i] as QueuedWindowHeartbeat);
+    }
+
+    const sent = await sendWindowBatch(profileId, run);
+    acknowledged += sent;
+    if (sent < run.length) break;
+  }
+
+  return acknowledged;
+}
+
+/**
+ * Post queued windows in one request, each with the heartbeatAt and idle state it was queued with.
+ * Falls back to one post per window if the server rejects the batch format (404/415).
+ * Returns how many entries, from the start, the server acknowledged.
+ */
+async function sendWindowBatch(profileId: string, entries: QueuedWindowHeartbeat[]): Promise<number> {
+  const client = API;
+  const { endpoints } = currentServer;
+  if (!isProfileActive(profileId)) {
+    log('Server profile changed, not sending heartbeat batch');
+    return 0;
+  }
+
+  const accessToken = authManager.getAccessToken();
+  if (!accessToken) {
+    log('Not authenticated, skipping heartbeat batch');
+    return 0;
+  }
+
+  if (!isBatchUnsupported) {
+    const batch: ActivityHeartbeatBatch = {
+      heartbeatAt: getTimestamp(),
+      isIdle: entries[entries.length - 1].isIdle,
+      device: await getDeviceInfo(),
+      windows: entries.map(entry => ({
+        ...entry.window,
+        heartbeatAt: entry.heartbeatAt,
+        isIdle: entry.isIdle
+      }))
+    };
+    const idempotencyKey = await getBatchIdempotencyKey(entries.map(entry => entry.window));
+
+    if (!isProfileActive(profileId)) {
+      log('Server profile changed, not sending heartbeat batch');
+      return 0;
+    }
+
+    try {
+      log('Sending heartbeat batch with', batch.windows.length, 'windows');
+
+      await client.post(endpoints.activityBatch, batch, {
+        headers: { 'Idempotency-Key': idempotencyKey }
+      });
+
+      log('Heartbeat batch sent successfully');
+      return entries.length;
+    } catch (error) {
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      if (status !== 404 && status !== 415) {
+        logError('Failed to send heartbeat batch:', error);
+        return 0;
+      }
+
+      log('Batch heartbeats not supported by server, falling back to single posts');
+      isBatchUnsupported = true;
+    }
+  }
+
+  let acknowledged = 0;
+  for (const entry of entries) {
+    const success = await sendHeartbeat(profileId, entry.window, entry.isIdle, entry.heartbeatAt);
+    if (!success) break;
+    acknowledged += 1;
+  }
+  return acknowledged;
+}
+
 /**
  * Check if API is reachable
+ * Pass server settings to check a server other than the configured one
  */
-export async function checkApiHealth(): Promise<boolean> {
+export async function checkApiHealth(server?: ServerSettings): Promise<boolean> {
+  const client = server ? createApiClient(server) : API;
+  const { activity } = (server || currentServer).endpoints;
+
   try {
-    await API.head(API_ACTIVITY_ENDPOINT, {
+    await client.head(activity, {
       timeout: 5000,
     });
     return true;
@@ -1,68 +1,254 @@
 import browser from 'webextension-polyfill';
-import type {AuthTokens, AuthState, LoginCredentials, LoginResponse, RefreshResponse} from '@shared/types';
-import {
-	API_LOGIN_ENDPOINT,
-	API_REFRESH_ENDPOINT,
-	API_LOGOUT_ENDPOINT,
-	TOKEN_REFRESH_BUFFER_MS,
-	log,
-	logError
-} from '@shared/config';
-import {API} from './api';
-
-const AUTH_STORAGE_KEY = 'auth';
+import type {
+	AuthTokens,
+	AuthState,
+	LoginCredentials,
+	LoginMethod,
+	LoginResponse,
+	OAuthTokenResponse,
+	PairingTokenResponse,
+	RefreshResponse,
+	SessionAuth,
+	StoredAuth
+} from '@shared/types';
+import {TOKEN_REFRESH_BUFFER_MS, TOKEN_REFRESH_RETRY_MS, log, logError} from '@shared/config';
+import {decodeJwtPayload} from '@shared/utils';
+import {API, getApiEndpoints, getOAuthSettings} from './api';
+import {getDeviceInfo} from './device';
+import {decryptSecret, encryptSecret} from './keystore';
+import {authorizeWithPkce, refreshOAuthTokens} from './oauth';
+import {getSessionStorage} from './storage';
+
+// Tokens are kept per server profile, under 'auth:<profileId>' in both
+// storage.local (encrypted refresh token) and storage.session (access token)
+const AUTH_KEY_PREFIX = 'auth:';
+const LEGACY_AUTH_STORAGE_KEY = 'auth';
+
+// Access token lifetime assumed when neither the server nor the token says
+const DEFAULT_EXPIRES_IN_SECONDS = 15 * 60;
+
+// Alarms survive the service worker being suspended, timeouts don't
+export const TOKEN_REFRESH_ALARM_NAME = 'token-refresh';
+
+/**
+ * When an access token expires: from the server's expiresIn, else the JWT exp claim,
+ * else the default lifetime
+ */
+function getExpiresAt(accessToken: string, expiresIn?: number): number {
+	if (typeof expiresIn === 'number' && expiresIn > 0) {
+		return Date.now() + expiresIn * 1000;
+	}
+
+	const exp = decodeJwtPayload(accessToken)?.exp;
+	if (typeof exp === 'number' && exp * 1000 > Date.now()) {
+		return exp * 1000;
+	}
+
+	log('Access token lifetime unknown, assuming', DEFAULT_EXPIRES_IN_SECONDS, 'seconds');
+	return Date.now() + DEFAULT_EXPIRES_IN_SECONDS * 1000;
+}
+
+// Plaintext format written by older versions, re-encrypted on load
+interface LegacyStoredAuth {
+	tokens: AuthTokens;
+	userEmail: string;
+	loginMethod?: LoginMethod; // Missing for sessions stored before SSO existed
+}
 
 class AuthManager {
+	private profileId: string = '';
 	private tokens: AuthTokens | null = null;
 	private userEmail: string | null = null;
-	private refreshTimeoutId: ReturnType<typeof setTimeout> | null = null;
+	// Stable id of single sign-on users, unlike their email or user name
+	private userSubject: string | null = null;
+	private loginMethod: LoginMethod = 'password';
+	// The server rejected the refresh token; userEmail stays set so recording can continue for that user
+	private sessionExpired: boolean = false;
+	// Shared by concurrent refreshes, so a rotated refresh token is only used once
+	private refreshInFlight: { profileId: string; promise: Promise<boolean> } | null = null;
 	private onAuthChangeCallbacks: Array<(state: AuthState) => void> = [];
+	private onUserChangedCallbacks: Array<(profileId: string) => Promise<void>> = [];
 
-	async initialize(): Promise<void> {
+	async initialize(profileId: string): Promise<void> {
 		log('Initializing AuthManager');
+		this.profileId = profileId;
+		await this.importLegacyAuth();
 		await this.loadStoredAuth();
 
-		if (this.tokens) {
-			this.scheduleTokenRefresh();
+		// Expired tokens already have a refresh retry scheduled, if any
+		if (this.isAuthenticated()) {
+			await this.scheduleTokenRefresh();
 		}
 	}
 
-	private async loadStoredAuth(): Promise<void> {
+	/**
+	 * Use the stored tokens of another server profile. The current profile's tokens stay stored.
+	 */
+	async switchProfile(profileId: string): Promise<void> {
+		if (profileId === this.profileId) return;
+
+		log('Switching auth to profile', profileId);
+		await this.cancelTokenRefresh();
+
+		this.profileId = profileId;
+		this.tokens = null;
+		this.userEmail = null;
+		this.userSubject = null;
+		this.sessionExpired = false;
+		await this.loadStoredAuth();
+
+		// Expired tokens already have a refresh retry scheduled, if any
+		if (this.isAuthenticated()) {
+			await this.scheduleTokenRefresh();
+		}
+		this.notifyAuthChange();
+	}
+
+	/**
+	 * Remove stored tokens of profiles that no longer exist
+	 */
+	async forgetRemovedProfiles(profileIds: string[]): Promise<void> {
 		try {
-			const result = await browser.storage.local.get(AUTH_STORAGE_KEY);
-			const stored = result[AUTH_STORAGE_KEY] as { tokens: AuthTokens; userEmail: string } | undefined;
-
-			if (stored?.tokens) {
-				// Check if tokens are still valid
-				if (stored.tokens.expiresAt > Date.now()) {
-					this.tokens = stored.tokens;
-					this.userEmail = stored.userEmail;
-					log('Loaded stored auth for:', this.userEmail);
-				} else {
-					// Try to refresh the token
-					log('Stored token expired, attempting refresh');
-					const refreshed = await this.refreshToken(stored.tokens.refreshToken);
-					if (refreshed) {
-						this.userEmail = stored.userEmail;
-					} else {
-						await this.clearStoredAuth();
-					}
+			for (const area of [browser.storage.local, getSessionStorage()]) {
+				if (!area) continue;
+
+				const all = await area.get(null);
+				const orphaned = Object.keys(all).filter(key =>
+					key.startsWith(AUTH_KEY_PREFIX) && !profileIds.includes(key.slice(AUTH_KEY_PREFIX.length))
+				);
+				if (orphaned.length > 0) {
+					await area.remove(orphaned);
+					log('Removed auth of deleted profiles:', orphaned);
 				}
 			}
 		} catch (error) {
+			logError('Error removing auth of deleted profiles:', error);
+		}
+	}
+
+	/**
+	 * Profiles with a stored sign-in, including expired sessions waiting for the user
+	 */
+	async getStoredProfileIds(): Promise<string[]> {
+		const all = await browser.storage.local.get(null);
+		return Object.keys(all)
+			.filter(key => key.startsWith(AUTH_KEY_PREFIX))
+			.map(key => key.slice(AUTH_KEY_PREFIX.length));
+	}
+
+	private getStorageKey(profileId: string = this.profileId): string {
+		return AUTH_KEY_PREFIX + profileId;
+	}
+
+	// Tokens stored before server profiles existed belong to the profile active at upgrade
+	private async importLegacyAuth(): Promise<void> {
+		try {
+			const result = await browser.storage.local.get(LEGACY_AUTH_STORAGE_KEY);
+			if (!result[LEGACY_AUTH_STORAGE_KEY]) return;
+
+			await browser.storage.local.set({[this.getStorageKey()]: result[LEGACY_AUTH_STORAGE_KEY]});
+			await browser.storage.local.remove(LEGACY_AUTH_STORAGE_KEY);
+			log('Imported legacy auth into profile', this.profileId);
+		} catch (error) {
+			logError('Error importing legacy auth:', error);
+		}
+	}
+
+	private async loadStoredAuth(): Promise<void> {
+		try {
+			const key = this.getStorageKey();
+			const result = await browser.storage.local.get(key);
+			const stored = result[key] as StoredAuth | LegacyStoredAuth | undefined;
+			if (!stored) return;
+
+			if (!('tokens' in stored) && !stored.refreshToken) {
+				this.userEmail = stored.userEmail ?? null;
+				this.userSubject = stored.userSubject ?? null;
+				this.loginMethod = stored.loginMethod;
+				this.sessionExpired = true;
+				log('Session of', this.userEmail, 'expired, waiting for sign in');
+				return;
+			}
+
+			let tokens: AuthTokens;
+			if ('tokens' in stored) {
+				tokens = stored.tokens;
+			} else {
+				const session = await this.readSessionAuth();
+				tokens = {
+					accessToken: session?.accessToken || '',
+					refreshToken: await decryptSecret(stored.refreshToken!),
+					expiresAt: session?.expiresAt || 0
+				};
+			}
+
+			this.tokens = tokens;
+			this.userEmail = stored.userEmail ?? null;
+			this.userSubject = 'userSubject' in stored ? stored.userSubject ?? null : null;
+			this.loginMethod = stored.loginMethod || 'password';
+
+			if ('tokens' in stored) {
+				log('Encrypting stored tokens of', this.profileId);
+				await this.saveAuth();
+			}
+
+			// Check if tokens are still valid
+			if (tokens.expiresAt > Date.now()) {
+				log('Loaded stored auth for:', this.userEmail);
+			} else {
+				// Try to refresh the token; a rejected refresh expires the session, a network error retries later
+				log('No valid access token stored, attempting refresh');
+				await this.refreshToken();
+			}
+		} catch (error) {
+			// Most likely the encryption key was lost with the extension's site data
 			logError('Error loading stored auth:', error);
+			this.tokens = null;
+			this.userEmail = null;
+			this.userSubject = null;
+			await this.clearStoredAuth();
 		}
 	}
 
+	// Without storage.session the access token stays in memory and is refreshed when the service worker restarts
+	private async readSessionAuth(): Promise<SessionAuth | undefined> {
+		const session = getSessionStorage();
+		if (!session) return undefined;
+
+		const key = this.getStorageKey();
+		const result = await session.get(key);
+		return result[key] as SessionAuth | undefined;
+	}
+
 	private async saveAuth(): Promise<void> {
+		if (this.tokens || this.sessionExpired) {
+			await this.writeStoredAuth(this.profileId, this.tokens, this.userEmail, this.userSubject, this.loginMethod);
+		}
+	}
+
+	// Without tokens, only the user of an expired session is stored
+	private async writeStoredAuth(
+		profileId: string,
+		tokens: AuthTokens | null,
+		userEmail: string | null,
+		userSubject: string | null,
+		loginMethod: LoginMethod
+	): Promise<void> {
 		try {
-			if (this.tokens && this.userEmail) {
-				await browser.storage.local.set({
-					[AUTH_STORAGE_KEY]: {
-						tokens: this.tokens,
-						userEmail: this.userEmail
-					}
-				});
+			const key = this.getStorageKey(profileId);
+			const stored: StoredAuth = {
+				refreshToken: tokens ? await encryptSecret(tokens.refreshToken) : undefined,
+				userEmail: userEmail ?? undefined,
+				userSubject: userSubject ?? undefined,
+				loginMethod
+			};
+			await browser.storage.local.set({[key]: stored});
+
+			if (tokens) {
+				const sessionAuth: SessionAuth = {accessToken: tokens.accessToken, expiresAt: tokens.expiresAt};
+				await getSessionStorage()?.set({[key]: sessionAuth});
+			} else {
+				await getSessionStorage()?.remove(key);
 			}
 		} catch (error) {
 			logError('Error saving auth:', error);
@@ -71,7 +257,8 @@ class AuthManager {
 
 	private async clearStoredAuth(): Promise<void> {
 		try {
-			await browser.storage.local.remove(AUTH_STORAGE_KEY);
+			await browser.storage.local.remove(this.getStorageKey());
+			await getSessionStorage()?.remove(this.getStorageKey());
 		} catch (error) {
 			logError('Error clearing stored auth:', error);
 		}
@@ -79,20 +266,23 @@ class AuthManager {
 
 	async login(credentials: LoginCredentials): Promise<{ success: boolean; error?: string }> {
 		log('Attempting login for:', credentials.email);
+		const profileId = this.profileId;
 
 		try {
-			const response = await API.post<LoginResponse>(API_LOGIN_ENDPOINT, credentials);
+			const response = await API.post<LoginResponse>(getApiEndpoints().login, {
+				...credentials,
+				device: await getDeviceInfo()
+			});
+
+			if (this.profileId !== profileId) {
+				return {success: false, error: 'Server profile changed during sign in'};
+			}
 
-			this.tokens = {
+			await this.startSession({
 				accessToken: response.data.accessToken,
 				refreshToken: response.data.refreshToken,
-				expiresAt: Date.now() + (15 * 60 * 1000)
-			};
-			this.userEmail = credentials.email;
-
-			await this.saveAuth();
-			this.scheduleTokenRefresh();
-			this.notifyAuthChange();
+				expiresAt: getExpiresAt(response.data.accessToken, response.data.expiresIn)
+			}, credentials.email, 'password');
 
 			log('Login successful for:', credentials.email);
 			return {success: true};
@@ -103,19 +293,147 @@ class AuthManager {
 		}
 	}
 
+	/**
+	 * Sign in through the identity provider configured for the active server profile
+	 */
+	async loginWithOAuth(): Promise<{ success: boolean; error?: string }> {
+		const oauth = getOAuthSettings();
+		if (!oauth.authorizeUrl) {
+			return {success: false, error: 'Single sign-on is not configured for this server'};
+		}
+
+		log('Attempting single sign-on');
+		const profileId = this.profileId;
+
+		try {
+			const response = await authorizeWithPkce(oauth);
+
+			if (this.profileId !== profileId) {
+				return {success: false, error: 'Server profile changed during sign in'};
+			}
+
+			const claims = response.id_token ? decodeJwtPayload(response.id_token) : null;
+			await this.startSession(
+				this.tokensFromOAuthResponse(response, ''),
+				this.getOAuthUserName(claims),
+				'oauth',
+				typeof claims?.sub === 'string' ? claims.sub : null
+			);
+
+			log('Single sign-on successful for:', this.userEmail ?? this.userSubject);
+			return {success: true};
+		} catch (error: any) {
+			const errorMessage = error.response?.data?.error_description || error.message || 'Single sign-on failed';
+			logError('Single sign-on error:', errorMessage);
+			return {success: false, error: errorMessage};
+		}
+	}
+
+	/**
+	 * Sign in with the tokens of an approved pairing code.
+	 * Returns false if the profile was switched while the code was pending.
+	 */
+	async loginWithPairing(response: PairingTokenResponse, profileId: string): Promise<boolean> {
+		if (this.profileId !== profileId) {
+			log('Server profile changed during pairing, discarding tokens');
+			return false;
+		}
+
+		await this.startSession({
+			accessToken: response.accessToken,
+			refreshToken: response.refreshToken,
+			expiresAt: getExpiresAt(response.accessToken, response.expiresIn)
+		}, response.userEmail, 'pairing');
+
+		log('Pairing login successful for:', response.userEmail);
+		return true;
+	}
+
+	/**
+	 * Use the tokens of a successful sign in. If a different user signs in after the
+	 * session expired, what was recorded for the previous user is discarded first.
+	 */
+	private async startSession(
+		tokens: AuthTokens,
+		userEmail: string | null,
+		loginMethod: LoginMethod,
+		userSubject: string | null = null
+	): Promise<void> {
+		if (this.sessionExpired && this.isDifferentUser(userEmail, userSubject)) {
+			log('Different user signed in after session expiry, discarding activity of', this.userEmail ?? this.userSubject);
+			for (const callback of this.onUserChangedCallbacks) {
+				try {
+					await callback(this.profileId);
+				} catch (error) {
+					logError('Error in user change callback:', error);
+				}
+			}
+		}
+
+		this.tokens = tokens;
+		this.userEmail = userEmail;
+		this.userSubject = userSubject;
+		this.loginMethod = loginMethod;
+		this.sessionExpired = false;
+
+		await this.saveAuth();
+		await this.scheduleTokenRefresh();
+		this.notifyAuthChange();
+	}
+
+	/**
+	 * The server rejected the refresh token. Unlike a logout, the user is remembered
+	 * so activity keeps being recorded until they sign in again.
+	 */
+	private async expireSession(): Promise<void> {
+		log('Session expired for', this.userEmail);
+		await this.cancelTokenRefresh();
+
+		this.tokens = null;
+		this.sessionExpired = true;
+		await this.saveAuth();
+		this.notifyAuthChange();
+	}
+
+	// Identity providers may not rotate the refresh token, in which case the current one stays valid
+	private tokensFromOAuthResponse(response: OAuthTokenResponse, currentRefreshToken: string): AuthTokens {
+		return {
+			accessToken: response.access_token,
+			refreshToken: response.refresh_token || currentRefreshToken,
+			expiresAt: getExpiresAt(response.access_token, response.expires_in)
+		};
+	}
+
+	/**
+	 * Compare the user signing in with the user of the expired session: by subject where both
+	 * have one, else by email. If either is unknown, the backlog is kept rather than discarded on a guess.
+	 */
+	private isDifferentUser(userEmail: string | null, userSubject: string | null): boolean {
+		if (this.userSubject && userSubject) {
+			return this.userSubject !== userSubject;
+		}
+		if (this.userEmail && userEmail) {
+			return this.userEmail.toLowerCase() !== userEmail.toLowerCase();
+		}
+		return false;
+	}
+
+	// Shown in the popup; taken from the ID token claims, which are only present with the openid scope
+	private getOAuthUserName(claims: Record<string, unknown> | null): string | null {
+		const name = claims?.email || claims?.preferred_username;
+		return typeof name === 'string' ? name : null;
+	}
+
 	async logout(): Promise<void> {
 		log('Logging out');
 
 		// Cancel scheduled refresh
-		if (this.refreshTimeoutId) {
-			clearTimeout(this.refreshTimeoutId);
-			this.refreshTimeoutId = null;
-		}
+		await this.cancelTokenRefresh();
 
-		// Notify server (best effort)
-		if (this.tokens) {
+		// Notify server (best effort); SSO refresh tokens belong to the identity provider
+		if (this.tokens && this.loginMethod !== 'oauth') {
 			try {
-				await API.post(API_LOGOUT_ENDPOINT, {refreshToken: this.tokens.refreshToken});
+				await API.post(getApiEndpoints().logout, {refreshToken: this.tokens.refreshToken});
 			} catch {
 				// Ignore logout API errors
 			}
@@ -123,63 +441,135 @@ class AuthManager {
 
 		this.tokens = null;
 		this.userEmail = null;
+		this.userSubject = null;
+		this.sessionExpired = false;
 		await this.clearStoredAuth();
 		this.notifyAuthChange();
 
 		log('Logout complete');
 	}
 
-	private async refreshToken(refreshToken?: string): Promise<boolean> {
-		const tokenToUse = refreshToken || this.tokens?.refreshToken;
+	private refreshToken(): Promise<boolean> {
+		if (this.refreshInFlight?.profileId !== this.profileId) {
+			const profileId = this.profileId;
+			const promise = this.runRefresh().finally(() => {
+				if (this.refreshInFlight?.promise === promise) {
+					this.refreshInFlight = null;
+				}
+			});
+			this.refreshInFlight = {profileId, promise};
+		}
+		return this.refreshInFlight.promise;
+	}
 
-		if (!tokenToUse) {
+	private async runRefresh(): Promise<boolean> {
+		const refreshToken = this.tokens?.refreshToken;
+
+		if (!refreshToken) {
 			log('No refresh token available');
 			return false;
 		}
 
 		log('Refreshing access token');
+		const profileId = this.profileId;
+		const userEmail = this.userEmail;
+		const userSubject = this.userSubject;
+		const loginMethod = this.loginMethod;
 
 		try {
-			const response = await API.post<RefreshResponse>(API_REFRESH_ENDPOINT, {
-				refreshToken: tokenToUse
-			});
+			const tokens = await this.requestRefresh(refreshToken);
+
+			// Tokens of a profile that was switched away from mid-refresh must not replace the new profile's,
+			// but are still stored for it, since a rotated refresh token invalidates the stored one
+			if (this.profileId !== profileId) {
+				log('Server profile changed during token refresh, storing result for', profileId);
+				await this.writeStoredAuth(profileId, tokens, userEmail, userSubject, loginMethod);
+				return false;
+			}
 
-			this.tokens = {
-				accessToken: response.data.accessToken,
-				refreshToken: tokenToUse, // Keep the same refresh token
-				expiresAt: Date.now() + (response.data.expiresIn * 1000)
-			};
+			this.tokens = tokens;
 
 			await this.saveAuth();
-			this.scheduleTokenRefresh();
+			await this.scheduleTokenRefresh();
 
 			log('Token refreshed successfully');
 			return true;
 		} catch (error: any) {
 			logError('Token refresh error:', error.response?.status || error.message);
-			// If refresh fails, logout
-			if (!refreshToken) {
-				await this.logout();
+
+			if (this.profileId !== profileId) return false;
+
+			// Network and server errors don't mean the token was rejected - try again later
+			const status: number | undefined = error.response?.status;
+			if ((!status || status >= 500) && this.tokens) {
+				await this.scheduleTokenRefresh(Date.now() + TOKEN_REFRESH_RETRY_MS);
+				return false;
 			}
+
+			await this.expireSession();
 			return false;
 		}
 	}
 
-	private scheduleTokenRefresh(): void {
-		if (this.refreshTimeoutId) {
-			clearTimeout(this.refreshTimeoutId);
+	/**
+	 * Refresh at the backend, or at the identity provider for SSO sessions
+	 */
+	private async requestRefresh(refreshToken: string): Promise<AuthTokens> {
+		if (this.loginMethod === 'oauth') {
+			const response = await refreshOAuthTokens(getOAuthSettings(), refreshToken);
+			return this.tokensFromOAuthResponse(response, refreshToken);
 		}
 
+		const response = await API.post<RefreshResponse>(getApiEndpoints().refresh, {
+			refreshToken,
+			device: await getDeviceInfo()
+		});
+
+		return {
+			accessToken: response.data.accessToken,
+			// Servers that rotate refresh tokens invalidate the one just used
+			refreshToken: response.data.refreshToken || refreshToken,
+			expiresAt: getExpiresAt(response.data.accessToken, response.data.expiresIn)
+		};
+	}
+
+	/**
+	 * Schedule the next refresh shortly before the access token expires, or at the given time
+	 */
+	private async scheduleTokenRefresh(when?: number): Promise<void> {
 		if (!this.tokens) return;
 
-		const timeUntilExpiry = this.tokens.expiresAt - Date.now();
-		const refreshIn = Math.max(0, timeUntilExpiry - TOKEN_REFRESH_BUFFER_MS);
+		const refreshAt = when ?? this.tokens.expiresAt - TOKEN_REFRESH_BUFFER_MS;
+		log('Scheduling token refresh in', Math.round(Math.max(0, refreshAt - Date.now()) / 1000), 'seconds');
+
+		try {
+			await browser.alarms.create(TOKEN_REFRESH_ALARM_NAME, {when: Math.max(refreshAt, Date.now())});
+		} catch (error) {
+			logError('Error scheduling token refresh:', error);
+		}
+	}
+
+	private async cancelTokenRefresh(): Promise<void> {
+		try {
+			await browser.alarms.clear(TOKEN_REFRESH_ALARM_NAME);
+		} catch (error) {
+			logError('Error cancelling token refresh:', error);
+		}
+	}
 
-		log('Scheduling token refresh in', Math.round(refreshIn / 1000), 'seconds');
+	/**
+	 * Called when the refresh alarm fires
+	 */
+	async handleRefreshAlarm(): Promise<void> {
+		if (!this.tokens) return;
+		await this.refreshToken();
+	}
 
-		this.refreshTimeoutId = setTimeout(() => {
-			this.refreshToken();
-		}, refreshIn);
+	/**
+	 * Profile whose tokens are loaded, which getAccessToken hands out
+	 */
+	getProfileId(): string {
+		return this.profileId;
 	}
 
 	getAccessToken(): string | null {
@@ -202,7 +592,7 @@ class AuthManager {
 		return {
 			isAuthenticated: this.isAuthenticated(),
 			userEmail: this.userEmail || undefined,
-			tokens: this.tokens || undefined
+			sessionExpired: this.sessionExpired
 		};
 	}
 
@@ -210,6 +600,13 @@ class AuthManager {
 		this.onAuthChangeCallbacks.push(callback);
 	}
 
+	/**
+	 * Called before a different user takes over a profile whose session expired
+	 */
+	onUserChanged(callback: (profileId: string) => Promise<void>): void {
+		this.onUserChangedCallbacks.push(callback);
+	}
+
 	private notifyAuthChange(): void {
 		const state = this.getAuthState();
 		for (const callback of this.onAuthChangeCallbacks) {
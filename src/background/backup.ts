@@ -0,0 +1,83 @@
+import type { ExportData, ImportMode, ImportResult, UserSettings } from '@shared/types';
+import { EXPORT_FORMAT, EXPORT_VERSION, log } from '@shared/config';
+import { getTimestamp, mergeSettings } from '@shared/utils';
+import { getAllOutboxes, getSettings, mergeIntoOutbox } from './storage';
+import { enforceHistoryQuota, getAllHistory, importHistory, pruneHistory } from './history';
+import { authManager } from './auth';
+
+/**
+ * Everything worth keeping across reinstalls and devices. Tokens and the
+ * per-install device id and label are left out on purpose.
+ */
+export async function exportData(): Promise<ExportData> {
+  const data: ExportData = {
+    format: EXPORT_FORMAT,
+    version: EXPORT_VERSION,
+    exportedAt: getTimestamp(),
+    settings: await getSettings(),
+    history: await getAllHistory(),
+    outboxes: await getAllOutboxes()
+  };
+
+  log('Exported', data.history.length, 'days of history');
+  return data;
+}
+
+/**
+ * Settings to apply for an import. Replacing keeps the current server profiles that
+ * still have queued heartbeats or a sign-in, since dropping a profile deletes both.
+ */
+export async function getImportSettings(
+  data: ExportData,
+  mode: ImportMode
+): Promise<{ settings: UserSettings; keptProfiles: string[] }> {
+  const current = await getSettings();
+  if (mode === 'merge') {
+    return { settings: mergeSettings(current, data.settings), keptProfiles: [] };
+  }
+
+  const outboxes = await getAllOutboxes();
+  const signedIn = await authManager.getStoredProfileIds();
+  const importedIds = data.settings.serverProfiles.map(profile => profile.id);
+  const kept = current.serverProfiles.filter(profile =>
+    !importedIds.includes(profile.id)
+    && ((outboxes[profile.id]?.length ?? 0) > 0 || signedIn.includes(profile.id))
+  );
+
+  if (kept.length > 0) {
+    log('Keeping server profiles with pending data:', kept.map(profile => profile.name));
+  }
+  return {
+    settings: { ...data.settings, serverProfiles: [...data.settings.serverProfiles, ...kept] },
+    keptProfiles: kept.map(profile => profile.name)
+  };
+}
+
+/**
+ * Import history and queued heartbeats of a validated backup. Settings are applied
+ * by the caller beforehand, so queued heartbeats of server profiles that don't exist
+ * afterwards can be skipped.
+ * Queued heartbeats are always merged: replacing them would drop activity the server hasn't seen.
+ */
+export async function importData(
+  data: ExportData,
+  mode: ImportMode,
+  settings: UserSettings,
+  keptProfiles: string[]
+): Promise<ImportResult> {
+  await importHistory(data.history, mode);
+  await pruneHistory(settings.historyRetentionDays, settings.dayStartHour);
+  await enforceHistoryQuota(settings.dayStartHour);
+
+  const profileIds = settings.serverProfiles.map(profile => profile.id);
+  let queuedHeartbeats = 0;
+  for (const [profileId, entries] of Object.entries(data.outboxes)) {
+    if (!profileIds.includes(profileId)) {
+      log('Skipping queued heartbeats of unknown profile', profileId);
+      continue;
+    }
+    queuedHeartbeats += await mergeIntoOutbox(profileId, entries);
+  }
+
+  return { success: true, importedDays: data.history.length, queuedHeartbeats, keptProfiles };
+}
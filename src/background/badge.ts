@@ -0,0 +1,73 @@
+import browser from 'webextension-polyfill';
+import type { StatsResponse } from '@shared/types';
+import { logError } from '@shared/config';
+
+// Same colours as the status indicator in the popup
+const BADGE_COLORS = {
+  tracking: '#4caf50',
+  paused: '#ff9800',
+  idle: '#9e9e9e',
+  unauthenticated: '#f44336',
+  queued: '#ff9800'
+};
+
+const ICON_SIZES = [16, 32, 48, 128];
+
+export interface BadgeContext {
+  sessionExpired: boolean; // Still recording, but waiting for sign in
+  uploadsFailing: boolean; // Offline, or the server doesn't accept heartbeats
+  showSiteTime: boolean; // Minutes on the current site instead of an empty badge
+}
+
+let pausedIconShown: boolean | null = null;
+
+function getIconPaths(paused: boolean): Record<string, string> {
+  const suffix = paused ? '-paused' : '';
+  return Object.fromEntries(ICON_SIZES.map(size => [String(size), `/icons/icon${size}${suffix}.png`]));
+}
+
+function formatSiteTime(ms: number): string {
+  const minutes = Math.floor(ms / 60000);
+  if (minutes < 1) return '';
+  if (minutes < 60) return `${minutes}m`;
+  return `${Math.floor(minutes / 60)}h`;
+}
+
+function getBadge(stats: StatsResponse, context: BadgeContext): { text: string; color: string } {
+  if (stats.status === 'unauthenticated') {
+    return { text: '!', color: BADGE_COLORS.unauthenticated };
+  }
+  if (stats.status === 'paused') {
+    return { text: '', color: BADGE_COLORS.paused };
+  }
+  if (context.uploadsFailing && stats.pendingHeartbeats > 0) {
+    const count = stats.pendingHeartbeats > 99 ? '99+' : String(stats.pendingHeartbeats);
+    return { text: count, color: BADGE_COLORS.queued };
+  }
+  if (stats.status === 'idle') {
+    return { text: 'idle', color: BADGE_COLORS.idle };
+  }
+
+  const text = context.showSiteTime ? formatSiteTime(stats.currentSession.currentSiteTime) : '';
+  return { text, color: BADGE_COLORS.tracking };
+}
+
+/**
+ * Reflect the tracker status on the toolbar icon: badge text and colour,
+ * and the greyed-out icon whenever nothing is being recorded
+ */
+export async function updateBadge(stats: StatsResponse, context: BadgeContext): Promise<void> {
+  try {
+    const badge = getBadge(stats, context);
+    await browser.action.setBadgeText({ text: badge.text });
+    await browser.action.setBadgeBackgroundColor({ color: badge.color });
+
+    const paused = stats.status === 'paused' || (stats.status === 'unauthenticated' && !context.sessionExpired);
+    if (paused !== pausedIconShown) {
+      await browser.action.setIcon({ path: getIconPaths(paused) });
+      pausedIconShown = paused;
+    }
+  } catch (error) {
+    logError('Failed to update badge:', error);
+  }
+}
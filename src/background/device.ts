@@ -0,0 +1,28 @@
+import browser from 'webextension-polyfill';
+import type { DeviceInfo } from '@shared/types';
+import { parseBrowser, parseOperatingSystem } from '@shared/utils';
+import { getDeviceLabel, getInstallId } from './storage';
+
+/**
+ * Label used until the user sets one on the options page, e.g. "Chrome on Windows"
+ */
+function getDefaultDeviceLabel(): string {
+  const { name } = parseBrowser(navigator.userAgent);
+  return `${name} on ${parseOperatingSystem(navigator.userAgent)}`;
+}
+
+/**
+ * Describe this install for login, refresh and heartbeat calls
+ */
+export async function getDeviceInfo(): Promise<DeviceInfo> {
+  const { name, version } = parseBrowser(navigator.userAgent);
+  const [deviceId, deviceLabel] = await Promise.all([getInstallId(), getDeviceLabel()]);
+
+  return {
+    deviceId,
+    deviceLabel: deviceLabel || getDefaultDeviceLabel(),
+    browserName: name,
+    browserVersion: version,
+    extensionVersion: browser.runtime.getManifest().version
+  };
+}
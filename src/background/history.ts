@@ -0,0 +1,445 @@
+import browser from 'webextension-polyfill';
+import type {
+  ActivityWindow,
+  DailyStats,
+  HistoryDay,
+  HistoryQuery,
+  HistoryUsage,
+  HistoryWindow,
+  HourlyActivity,
+  HourlyActivityQuery,
+  ImportMode,
+  WindowActivity
+} from '@shared/types';
+import { HISTORY_MAX_BYTES, log } from '@shared/config';
+import { getDateString, getDayStartTime, getTodayDateString, shiftDateString } from '@shared/utils';
+
+// Each day lives under its own key so reads and writes stay small;
+// the index lists stored dates, oldest first
+const HISTORY_KEY_PREFIX = 'history:';
+const HISTORY_INDEX_KEY = 'historyIndex';
+const LEGACY_DAILY_STATS_KEY = 'dailyStats';
+
+// Serializes read-modify-write cycles on the history keys
+let historyLock: Promise<unknown> = Promise.resolve();
+
+function withHistoryLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = historyLock.then(fn, fn);
+  historyLock = run.catch(() => undefined);
+  return run;
+}
+
+function getHistoryKey(date: string): string {
+  return HISTORY_KEY_PREFIX + date;
+}
+
+function createEmptyHistoryDay(date: string): HistoryDay {
+  return {
+    date,
+    totalActiveTime: 0,
+    totalBackgroundTime: 0,
+    domainStats: {},
+    windows: []
+  };
+}
+
+async function readIndex(): Promise<string[]> {
+  const result = await browser.storage.local.get(HISTORY_INDEX_KEY);
+  return (result[HISTORY_INDEX_KEY] as string[] | undefined) || [];
+}
+
+async function readDay(date: string): Promise<HistoryDay | undefined> {
+  const key = getHistoryKey(date);
+  const result = await browser.storage.local.get(key);
+  return result[key] as HistoryDay | undefined;
+}
+
+async function writeDay(day: HistoryDay): Promise<void> {
+  const index = await readIndex();
+  const update: Record<string, unknown> = { [getHistoryKey(day.date)]: day };
+
+  if (!index.includes(day.date)) {
+    update[HISTORY_INDEX_KEY] = [...index, day.date].sort();
+  }
+
+  await browser.storage.local.set(update);
+}
+
+async function removeDays(dates: string[]): Promise<void> {
+  if (dates.length === 0) return;
+
+  const index = await readIndex();
+  await browser.storage.local.remove(dates.map(getHistoryKey));
+  await browser.storage.local.set({
+    [HISTORY_INDEX_KEY]: index.filter(date => !dates.includes(date))
+  });
+}
+
+/**
+ * Add (or subtract, with sign -1) a window's activities to a day's totals
+ */
+function applyWindowToDay(day: HistoryDay, activities: WindowActivity[], sign: 1 | -1): void {
+  for (const activity of activities) {
+    const domain = activity.domain;
+
+    if (!day.domainStats[domain]) {
+      day.domainStats[domain] = {
+        domain,
+        activeTime: 0,
+        backgroundTime: 0,
+        visits: 0
+      };
+    }
+
+    const domainStat = day.domainStats[domain];
+    if (activity.category) {
+      domainStat.category = activity.category;
+    }
+
+    const activeMs = activity.activeSeconds * 1000 * sign;
+    const backgroundMs = activity.backgroundSeconds * 1000 * sign;
+
+    domainStat.activeTime += activeMs;
+    domainStat.backgroundTime += backgroundMs;
+    day.totalActiveTime += activeMs;
+    day.totalBackgroundTime += backgroundMs;
+
+    // Increment visits (one per activity in window)
+    domainStat.visits += sign;
+
+    if (domainStat.visits <= 0) {
+      delete day.domainStats[domain];
+    }
+  }
+}
+
+/**
+ * Get a single day, empty if nothing was recorded
+ */
+export async function getHistoryDay(date: string): Promise<HistoryDay> {
+  try {
+    return (await readDay(date)) || createEmptyHistoryDay(date);
+  } catch (error) {
+    log('Error getting history day:', error);
+    return createEmptyHistoryDay(date);
+  }
+}
+
+/**
+ * Get all stored days within a date range, oldest first.
+ * Days without activity are not included.
+ */
+export async function getHistoryRange(query: HistoryQuery): Promise<HistoryDay[]> {
+  try {
+    const index = await readIndex();
+    const dates = index.filter(date => date >= query.from && date <= query.to);
+    if (dates.length === 0) return [];
+
+    const result = await browser.storage.local.get(dates.map(getHistoryKey));
+    return dates
+      .map(date => result[getHistoryKey(date)] as HistoryDay | undefined)
+      .filter((day): day is HistoryDay => day !== undefined)
+      .map(day => query.includeWindows ? day : { ...day, windows: [] });
+  } catch (error) {
+    log('Error getting history range:', error);
+    return [];
+  }
+}
+
+/**
+ * Get every stored day including its windows, oldest first
+ */
+export async function getAllHistory(): Promise<HistoryDay[]> {
+  const index = await readIndex();
+  return getHistoryRange({ from: index[0] ?? '', to: index[index.length - 1] ?? '', includeWindows: true });
+}
+
+/**
+ * Restore days from a backup. 'replace' drops the stored history first; 'merge' adds days
+ * that aren't stored yet, and windows that a stored day doesn't have yet.
+ * Imported days without windows (e.g. trimmed for the storage budget) can't be merged
+ * into a stored day and are skipped. Errors are passed on, so the import can report them.
+ */
+export async function importHistory(days: HistoryDay[], mode: ImportMode): Promise<void> {
+  await withHistoryLock(async () => {
+    if (mode === 'replace') {
+      await removeDays(await readIndex());
+    }
+
+    for (const imported of days) {
+      const day = await readDay(imported.date);
+      if (!day) {
+        await writeDay(imported);
+        continue;
+      }
+
+      const stored = new Set(day.windows.map(w => w.windowStart));
+      const added = imported.windows.filter(w => !stored.has(w.windowStart));
+      if (added.length === 0) continue;
+
+      for (const window of added) {
+        applyWindowToDay(day, window.activities, 1);
+      }
+      day.windows = [...day.windows, ...added].sort((a, b) => a.windowStart.localeCompare(b.windowStart));
+      await writeDay(day);
+    }
+  });
+  log('Imported', days.length, 'days of history, mode:', mode);
+}
+
+/**
+ * Bucket the windows of a date range by hour of day
+ */
+export async function getHourlyActivity(query: HourlyActivityQuery, dayStartHour: number): Promise<HourlyActivity[]> {
+  const days = await getHistoryRange({ ...query, includeWindows: true });
+
+  return days.map(day => {
+    const hourly: HourlyActivity = {
+      date: day.date,
+      activeSeconds: new Array(24).fill(0),
+      backgroundSeconds: new Array(24).fill(0)
+    };
+
+    for (const window of day.windows) {
+      addWindowToHours(hourly, window, dayStartHour, query.domain);
+    }
+
+    hourly.activeSeconds = hourly.activeSeconds.map(Math.round);
+    hourly.backgroundSeconds = hourly.backgroundSeconds.map(Math.round);
+    return hourly;
+  });
+}
+
+/**
+ * Add a window's seconds to the hours it covers, in proportion to the overlap with each,
+ * like splitWindowByDay. A window crossing the day boundary is stored in both days
+ * with only that day's part, so only the time within the day counts.
+ */
+function addWindowToHours(
+  hourly: HourlyActivity,
+  window: HistoryWindow,
+  dayStartHour: number,
+  domain?: string
+): void {
+  const windowStart = new Date(window.windowStart).getTime();
+  const start = Math.max(windowStart, getDayStartTime(hourly.date, dayStartHour));
+  const end = Math.min(
+    windowStart + window.windowMinutes * 60 * 1000,
+    getDayStartTime(shiftDateString(hourly.date, 1), dayStartHour)
+  );
+  if (end <= start) return;
+
+  let activeSeconds = 0;
+  let backgroundSeconds = 0;
+  for (const activity of window.activities) {
+    if (domain && activity.domain !== domain) continue;
+    activeSeconds += activity.activeSeconds;
+    backgroundSeconds += activity.backgroundSeconds;
+  }
+
+  let cursor = start;
+  while (cursor < end) {
+    const nextHour = new Date(cursor);
+    nextHour.setMinutes(60, 0, 0);
+    const segmentEnd = Math.min(nextHour.getTime(), end);
+    const fraction = (segmentEnd - cursor) / (end - start);
+    const hour = new Date(cursor).getHours();
+
+    hourly.activeSeconds[hour] += activeSeconds * fraction;
+    hourly.backgroundSeconds[hour] += backgroundSeconds * fraction;
+    cursor = segmentEnd;
+  }
+}
+
+/**
+ * Split a window into its parts per day. A window that crosses the day boundary
+ * has its seconds divided in proportion to the time on each side.
+ */
+function splitWindowByDay(
+  window: ActivityWindow,
+  dayStartHour: number
+): Array<{ date: string; activities: WindowActivity[] }> {
+  const start = new Date(window.windowStart).getTime();
+  const end = start + window.windowMinutes * 60 * 1000;
+  const startDate = getDateString(new Date(start), dayStartHour);
+  const endDate = getDateString(new Date(end - 1), dayStartHour);
+
+  if (startDate === endDate) {
+    return [{ date: startDate, activities: window.activities }];
+  }
+
+  const boundary = getDayStartTime(endDate, dayStartHour);
+  const firstFraction = (boundary - start) / (end - start);
+  const before: WindowActivity[] = [];
+  const after: WindowActivity[] = [];
+
+  for (const activity of window.activities) {
+    const activeBefore = Math.round(activity.activeSeconds * firstFraction);
+    const backgroundBefore = Math.round(activity.backgroundSeconds * firstFraction);
+    before.push({ ...activity, activeSeconds: activeBefore, backgroundSeconds: backgroundBefore });
+    after.push({
+      ...activity,
+      activeSeconds: activity.activeSeconds - activeBefore,
+      backgroundSeconds: activity.backgroundSeconds - backgroundBefore
+    });
+  }
+
+  const hasTime = (activity: WindowActivity) => activity.activeSeconds + activity.backgroundSeconds > 0;
+  return [
+    { date: startDate, activities: before.filter(hasTime) },
+    { date: endDate, activities: after.filter(hasTime) }
+  ];
+}
+
+/**
+ * Record an acknowledged window in the history of its day (or both days, if it
+ * crosses the day boundary). Recording the same window again replaces it
+ * instead of counting it twice.
+ */
+export async function addWindowToHistory(window: ActivityWindow, dayStartHour: number): Promise<void> {
+  try {
+    await withHistoryLock(async () => {
+      for (const part of splitWindowByDay(window, dayStartHour)) {
+        const day = (await readDay(part.date)) || createEmptyHistoryDay(part.date);
+
+        const existing = day.windows.find(w => w.windowStart === window.windowStart);
+        if (existing) {
+          applyWindowToDay(day, existing.activities, -1);
+          day.windows = day.windows.filter(w => w !== existing);
+        }
+
+        if (part.activities.length > 0) {
+          applyWindowToDay(day, part.activities, 1);
+          day.windows.push({
+            windowStart: window.windowStart,
+            windowMinutes: window.windowMinutes,
+            activities: part.activities
+          });
+          day.windows.sort((a, b) => a.windowStart.localeCompare(b.windowStart));
+        }
+
+        await writeDay(day);
+      }
+    });
+    log('Added window to history');
+  } catch (error) {
+    log('Error adding window to history:', error);
+  }
+}
+
+/**
+ * Remove days that fall outside the retention period
+ */
+export async function pruneHistory(retentionDays: number, dayStartHour: number): Promise<void> {
+  try {
+    await withHistoryLock(async () => {
+      const oldestKept = shiftDateString(getTodayDateString(dayStartHour), -(retentionDays - 1));
+      const index = await readIndex();
+      const expired = index.filter(date => date < oldestKept);
+
+      if (expired.length > 0) {
+        await removeDays(expired);
+        log('Pruned', expired.length, 'days of history');
+      }
+    });
+  } catch (error) {
+    log('Error pruning history:', error);
+  }
+}
+
+function measureBytes(value: unknown): number {
+  return new Blob([JSON.stringify(value)]).size;
+}
+
+async function measureHistoryBytes(): Promise<number> {
+  const index = await readIndex();
+  if (index.length === 0) return 0;
+
+  return measureBytes(await browser.storage.local.get(index.map(getHistoryKey)));
+}
+
+export async function getHistoryUsage(): Promise<HistoryUsage> {
+  try {
+    const index = await readIndex();
+    return {
+      days: index.length,
+      oldestDate: index[0],
+      bytes: await measureHistoryBytes(),
+      maxBytes: HISTORY_MAX_BYTES
+    };
+  } catch (error) {
+    log('Error getting history usage:', error);
+    return { days: 0, bytes: 0, maxBytes: HISTORY_MAX_BYTES };
+  }
+}
+
+/**
+ * Keep history below its storage budget. Per-window data of the oldest days
+ * goes first, since daily totals are still useful without it; whole days go last.
+ * Today is never dropped.
+ */
+export async function enforceHistoryQuota(dayStartHour: number): Promise<void> {
+  try {
+    await withHistoryLock(async () => {
+      const index = await readIndex();
+      const stored = await browser.storage.local.get(index.map(getHistoryKey));
+
+      // Every day is measured once; stripping or removing one subtracts its share
+      const sizes = new Map(index.map(date => {
+        const key = getHistoryKey(date);
+        return [date, measureBytes({ [key]: stored[key] })];
+      }));
+      let bytes = [...sizes.values()].reduce((sum, size) => sum + size, 0);
+      if (bytes <= HISTORY_MAX_BYTES) return;
+
+      log('History over quota:', bytes, 'bytes');
+      const today = getTodayDateString(dayStartHour);
+      const olderDates = index.filter(date => date !== today);
+
+      for (const date of olderDates) {
+        const key = getHistoryKey(date);
+        const day = stored[key] as HistoryDay | undefined;
+        if (!day || day.windows.length === 0) continue;
+
+        const stripped: HistoryDay = { ...day, windows: [] };
+        await writeDay(stripped);
+        const size = measureBytes({ [key]: stripped });
+        bytes -= sizes.get(date)! - size;
+        sizes.set(date, size);
+        if (bytes <= HISTORY_MAX_BYTES) return;
+      }
+
+      const removed: string[] = [];
+      for (const date of olderDates) {
+        if (bytes <= HISTORY_MAX_BYTES) break;
+        removed.push(date);
+        bytes -= sizes.get(date)!;
+      }
+      await removeDays(removed);
+      log('Removed', removed.length, 'days of history over quota');
+    });
+  } catch (error) {
+    log('Error enforcing history quota:', error);
+  }
+}
+
+/**
+ * Move the single-day stats blob used by older versions into history
+ */
+export async function importLegacyDailyStats(): Promise<void> {
+  try {
+    await withHistoryLock(async () => {
+      const result = await browser.storage.local.get(LEGACY_DAILY_STATS_KEY);
+      const legacy = result[LEGACY_DAILY_STATS_KEY] as DailyStats | undefined;
+      if (!legacy) return;
+
+      if (!(await readDay(legacy.date))) {
+        await writeDay({ ...legacy, windows: [] });
+        log('Imported legacy daily stats for', legacy.date);
+      }
+      await browser.storage.local.remove(LEGACY_DAILY_STATS_KEY);
+    });
+  } catch (error) {
+    log('Error importing legacy daily stats:', error);
+  }
+}
@@ -1,37 +1,275 @@
 import browser from 'webextension-polyfill';
-import { tracker } from './tracker';
-import { authManager } from './auth';
-import { sendHeartbeat } from './api';
-import { HEARTBEAT_INTERVAL_MS, log, logError } from '@shared/config';
-import type { Message, LoginCredentials } from '@shared/types';
-import { saveSettings, updateStatsFromWindow } from './storage';
+import { tracker, PAUSE_END_ALARM_NAME } from './tracker';
+import { authManager, TOKEN_REFRESH_ALARM_NAME } from './auth';
+import { offlineQueue } from './offline';
+import { DEFAULT_SETTINGS, log, logError } from '@shared/config';
+import {
+  extractDomain,
+  getPauseEnd,
+  isTrackableUrl,
+  parseExportData,
+  withDefaultSettings
+} from '@shared/utils';
+import type {
+  AuthState,
+  Message,
+  LoginCredentials,
+  PauseDuration,
+  UserSettings,
+  ServerSettings,
+  ServerProfile,
+  ServerProfilesResponse,
+  StatsResponse,
+  HistoryQuery,
+  HourlyActivityQuery,
+  ImportRequest,
+  ImportResult
+} from '@shared/types';
+import {
+  saveSettings,
+  getSettings,
+  getInstallId,
+  saveDeviceLabel,
+  getActiveProfile,
+  saveActiveProfileId,
+  removeOrphanedOutboxes,
+  clearOutbox
+} from './storage';
+import {
+  getHistoryRange,
+  getHistoryUsage,
+  getHourlyActivity,
+  pruneHistory,
+  enforceHistoryQuota
+} from './history';
+import { getDeviceInfo } from './device';
+import { exportData, getImportSettings, importData } from './backup';
+import { needsSettingsMigration, runMigrations } from './migrations';
+import { configureApi, checkApiHealth, getActiveProfileId } from './api';
+import { pairingManager, PAIRING_POLL_ALARM_NAME } from './pairing';
+import { updateBadge } from './badge';
+import {
+  createContextMenus,
+  COMMAND_BLOCK_SITE,
+  COMMAND_TOGGLE_PAUSE,
+  MENU_BLOCK_SITE,
+  MENU_PAUSE_30_MINUTES,
+  MENU_TRACK_FULL_URL
+} from './menus';
 
 const HEARTBEAT_ALARM_NAME = 'heartbeat';
+const HISTORY_MAINTENANCE_ALARM_NAME = 'history-maintenance';
+const SESSION_EXPIRED_NOTIFICATION_ID = 'session-expired';
+
+// Profile switches and heartbeat uploads wait for each other, so a heartbeat is never
+// taken from one profile and sent while the next one is being set up
+let profileTaskChain: Promise<unknown> = Promise.resolve();
+
+function runProfileTask<T>(task: () => Promise<T>): Promise<T> {
+  const result = profileTaskChain.then(task);
+  profileTaskChain = result.catch(() => undefined);
+  return result;
+}
+
+// (Re)create the heartbeat alarm if its period differs from the configured interval
+async function scheduleHeartbeatAlarm(settings: UserSettings): Promise<void> {
+  const periodInMinutes = settings.heartbeatSeconds / 60;
+  const existing = await browser.alarms.get(HEARTBEAT_ALARM_NAME);
+  if (existing?.periodInMinutes === periodInMinutes) return;
+
+  await browser.alarms.create(HEARTBEAT_ALARM_NAME, { periodInMinutes });
+  log('Heartbeat alarm scheduled every', settings.heartbeatSeconds, 'seconds');
+}
+
+// Apply the retention period and storage budget to local history
+async function maintainHistory(): Promise<void> {
+  const settings = await getSettings();
+  await pruneHistory(settings.historyRetentionDays, settings.dayStartHour);
+  await enforceHistoryQuota(settings.dayStartHour);
+}
+
+// Tracker stats, with the status overridden while not signed in
+async function getStats(): Promise<StatsResponse> {
+  const stats = await tracker.getStatsResponse();
+  if (!authManager.isAuthenticated()) {
+    stats.status = 'unauthenticated';
+  }
+  return stats;
+}
+
+async function refreshBadge(): Promise<void> {
+  const settings = await getSettings();
+  await updateBadge(await getStats(), {
+    sessionExpired: authManager.getAuthState().sessionExpired,
+    uploadsFailing: offlineQueue.isUploadFailing(),
+    showSiteTime: settings.badgeShowsSiteTime
+  });
+}
+
+async function notifySessionExpired(state: AuthState): Promise<void> {
+  try {
+    await browser.notifications.create(SESSION_EXPIRED_NOTIFICATION_ID, {
+      type: 'basic',
+      iconUrl: browser.runtime.getURL('icons/icon128.png'),
+      title: 'TimeOrganizer session expired',
+      message: `Sign in again${state.userEmail ? ` as ${state.userEmail}` : ''} to upload your activity. ` +
+        'Tracking continues in the meantime.'
+    });
+  } catch (error) {
+    logError('Failed to show session expired notification:', error);
+  }
+}
+
+// Save settings and apply them right away, whether they come from the options page, a menu or a command
+async function updateSettings(settings: UserSettings): Promise<void> {
+  await saveSettings(settings);
+  await applyServerProfiles(settings);
+  tracker.updateSettings(settings);
+  await scheduleHeartbeatAlarm(settings);
+  await pruneHistory(settings.historyRetentionDays, settings.dayStartHour);
+}
+
+// Add the domain of a page to the blocklist or the full URL domains
+async function addDomainToSettings(
+  url: string | undefined,
+  key: 'blocklist' | 'trackFullUrlDomains'
+): Promise<void> {
+  if (!url || !isTrackableUrl(url)) return;
+
+  const domain = extractDomain(url);
+  const settings = await getSettings();
+  if (!domain || settings[key].includes(domain)) return;
+
+  await updateSettings({ ...settings, [key]: [...settings[key], domain] });
+  log('Added', domain, 'to', key);
+}
+
+async function pauseTracking(duration: PauseDuration): Promise<void> {
+  const settings = await getSettings();
+  await tracker.pause(getPauseEnd(duration, settings.dayStartHour));
+}
+
+// Send everything from now on to another server profile. Whatever was recorded
+// so far stays queued for the profile that was active at the time.
+function switchProfile(profile: ServerProfile): Promise<void> {
+  return runProfileTask(async () => {
+    log('Switching to server profile', profile.name);
+
+    // Let a running replay finish against the server it started with
+    await offlineQueue.waitForReplay();
+
+    await tracker.switchProfile(profile.id);
+    configureApi(profile);
+    await authManager.switchProfile(profile.id);
+
+    if (authManager.isAuthenticated()) {
+      await tracker.setPaused(false);
+      offlineQueue.resetBackoff();
+      offlineQueue.replay(true);
+    }
+  });
+}
+
+// Upload finished windows, then the in-progress one, for the active profile
+function sendHeartbeats(): Promise<void> {
+  return runProfileTask(async () => {
+    const profileId = getActiveProfileId();
+
+    // Make sure a just-finished window is in the outbox before draining
+    await tracker.rotateWindowIfNeeded();
+
+    // Send the in-progress window only after older windows, so the server sees them in order
+    const drained = await offlineQueue.replay();
+    if (drained) {
+      await offlineQueue.sendOrQueue(profileId, tracker.getHeartbeatWindow(), tracker.getIsIdle());
+    }
+  });
+}
+
+// Apply changed server profiles: follow edits to the active profile, fall back
+// to the first profile if it was deleted and drop data of deleted profiles
+async function applyServerProfiles(settings: UserSettings): Promise<void> {
+  const profile = await getActiveProfile(settings);
+
+  if (profile.id !== getActiveProfileId()) {
+    await switchProfile(profile);
+  } else {
+    configureApi(profile);
+  }
+
+  const profileIds = settings.serverProfiles.map(p => p.id);
+  await authManager.forgetRemovedProfiles(profileIds);
+  await removeOrphanedOutboxes(profileIds);
+}
 
 // Initialize tracker and set up alarms
 async function initialize(): Promise<void> {
   log('Background service worker starting');
 
   try {
-    // Initialize auth manager first
-    await authManager.initialize();
+    // Nothing may read stored data in an older layout
+    await runMigrations();
+
+    // Point the API at the active server profile before auth talks to it
+    const profile = await getActiveProfile(await getSettings());
+    configureApi(profile);
+
+    // Initialize auth manager
+    await authManager.initialize(profile.id);
 
     // Initialize the activity tracker
-    await tracker.initialize();
+    await tracker.initialize(profile.id);
+
+    // Replay queued heartbeats when connectivity returns
+    offlineQueue.initialize();
 
     // Set up heartbeat alarm
-    await browser.alarms.create(HEARTBEAT_ALARM_NAME, {
-      periodInMinutes: HEARTBEAT_INTERVAL_MS / 60000
+    await scheduleHeartbeatAlarm(await getSettings());
+
+    // Keep local history within its retention period
+    await maintainHistory();
+    await browser.alarms.create(HISTORY_MAINTENANCE_ALARM_NAME, {
+      periodInMinutes: 60
+    });
+
+    // Resume tracking once a pairing code is approved, as after a password login
+    pairingManager.onApproved(() => {
+      tracker.setPaused(false);
+    });
+
+    // Activity recorded while the session was expired belongs to the previous user
+    authManager.onUserChanged(async (profileId) => {
+      await clearOutbox(profileId);
+      await tracker.discardBuffer();
     });
 
     // Listen for auth state changes
     authManager.onAuthChange((state) => {
       log('Auth state changed:', state.isAuthenticated);
-      if (!state.isAuthenticated) {
+
+      if (state.sessionExpired) {
+        // Keep recording into the outbox until the user signs in again
+        notifySessionExpired(state);
+      } else {
+        browser.notifications.clear(SESSION_EXPIRED_NOTIFICATION_ID).catch(() => undefined);
+      }
+
+      if (state.isAuthenticated) {
+        // Upload what was recorded while signed out
+        offlineQueue.resetBackoff();
+        offlineQueue.replay(true);
+      } else if (!state.sessionExpired) {
         // Pause tracking when logged out
         tracker.setPaused(true);
       }
+      refreshBadge();
+    });
+
+    // Keep the toolbar icon in sync with the tracker
+    tracker.onStatusChange(() => {
+      refreshBadge();
     });
+    await refreshBadge();
 
     log('Background service worker initialized');
   } catch (error) {
@@ -39,25 +277,77 @@ async function initialize(): Promise<void> {
   }
 }
 
-// Handle heartbeat alarm
+// Handle heartbeat, maintenance, token refresh, pause end and pairing alarms
 browser.alarms.onAlarm.addListener(async (alarm) => {
   if (alarm.name === HEARTBEAT_ALARM_NAME) {
     log('Heartbeat alarm triggered');
 
     // Only send heartbeat if authenticated
     if (authManager.isAuthenticated()) {
-      const window = tracker.getActivityWindow();
-      const isIdle = tracker.getIsIdle();
-      const success = await sendHeartbeat(window, isIdle);
-
-      // If window was final and successfully sent, update daily stats and clear buffer
-      if (success && window?.isFinal) {
-        await updateStatsFromWindow(window);
-        tracker.clearCurrentBuffer();
-      }
+      await sendHeartbeats();
+    } else if (authManager.getAuthState().sessionExpired) {
+      // Queue finished windows until the user signs in again
+      log('Session expired, queueing activity');
+      await tracker.rotateWindowIfNeeded();
     } else {
       log('Skipping heartbeat - not authenticated');
     }
+
+    // Queue size and time on the current site change with every heartbeat
+    await refreshBadge();
+  }
+
+  if (alarm.name === HISTORY_MAINTENANCE_ALARM_NAME) {
+    await maintainHistory();
+  }
+
+  if (alarm.name === TOKEN_REFRESH_ALARM_NAME) {
+    await authManager.handleRefreshAlarm();
+  }
+
+  if (alarm.name === PAUSE_END_ALARM_NAME) {
+    const authState = authManager.getAuthState();
+    if (authState.isAuthenticated || authState.sessionExpired) {
+      log('Timed pause ended');
+      await tracker.setPaused(false);
+    } else {
+      // Signing in resumes tracking
+      await tracker.clearPauseEnd();
+    }
+  }
+
+  if (alarm.name === PAIRING_POLL_ALARM_NAME) {
+    // A woken service worker must know the active profile and signed-in user first
+    await initialized;
+    await pairingManager.handlePollAlarm();
+  }
+});
+
+// The popup holds the login form; open it where the browser allows it
+browser.notifications.onClicked.addListener(async (notificationId) => {
+  if (notificationId !== SESSION_EXPIRED_NOTIFICATION_ID) return;
+
+  browser.notifications.clear(notificationId);
+  try {
+    await browser.action.openPopup();
+  } catch {
+    // The badge on the toolbar icon still points there
+  }
+});
+
+// Pick up settings changed from other devices (or written by the options page directly)
+browser.storage.onChanged.addListener(async (changes, areaName) => {
+  if (areaName === 'sync' && changes.settings) {
+    // Written by a device running an older version - applied once migrated, which saves them again
+    if (needsSettingsMigration(changes.settings.newValue)) {
+      await runMigrations();
+      return;
+    }
+
+    const settings = withDefaultSettings(changes.settings.newValue);
+    await applyServerProfiles(settings);
+    await scheduleHeartbeatAlarm(settings);
+    await refreshBadge();
   }
 });
 
@@ -68,20 +358,11 @@ browser.runtime.onMessage.addListener(
 
     switch (message.type) {
       case 'GET_STATS': {
-        const stats = await tracker.getStatsResponse();
-        // Override status if not authenticated
-        if (!authManager.isAuthenticated()) {
-          stats.status = 'unauthenticated';
-        }
-        return stats;
+        return getStats();
       }
 
       case 'GET_CURRENT_STATE': {
-        const stats = await tracker.getStatsResponse();
-        if (!authManager.isAuthenticated()) {
-          stats.status = 'unauthenticated';
-        }
-        return stats;
+        return getStats();
       }
 
       case 'TOGGLE_PAUSE': {
@@ -89,10 +370,18 @@ browser.runtime.onMessage.addListener(
         return { isPaused };
       }
 
+      case 'PAUSE_TRACKING': {
+        await pauseTracking(message.payload as PauseDuration);
+        return { isPaused: true };
+      }
+
+      case 'RESUME_TRACKING': {
+        await tracker.setPaused(false);
+        return { isPaused: false };
+      }
+
       case 'UPDATE_SETTINGS': {
-        const settings = message.payload as { blocklist: string[]; trackFullUrlDomains: string[] };
-        await saveSettings(settings);
-        tracker.updateSettings(settings);
+        await updateSettings(withDefaultSettings(message.payload as Partial<UserSettings>));
         return { success: true };
       }
 
@@ -108,6 +397,29 @@ browser.runtime.onMessage.addListener(
         return result;
       }
 
+      case 'LOGIN_OAUTH': {
+        const result = await authManager.loginWithOAuth();
+
+        if (result.success) {
+          tracker.setPaused(false);
+        }
+
+        return result;
+      }
+
+      case 'START_PAIRING': {
+        return pairingManager.start();
+      }
+
+      case 'GET_PAIRING_STATE': {
+        return pairingManager.getState();
+      }
+
+      case 'CANCEL_PAIRING': {
+        await pairingManager.cancel();
+        return pairingManager.getState();
+      }
+
       case 'LOGOUT': {
         await authManager.logout();
         tracker.setPaused(true);
@@ -118,6 +430,86 @@ browser.runtime.onMessage.addListener(
         return authManager.getAuthState();
       }
 
+      case 'GET_DEVICE_INFO': {
+        return getDeviceInfo();
+      }
+
+      case 'UPDATE_DEVICE_LABEL': {
+        const label = (message.payload as string).trim();
+        await saveDeviceLabel(label);
+        return getDeviceInfo();
+      }
+
+      case 'GET_HISTORY': {
+        return getHistoryRange(message.payload as HistoryQuery);
+      }
+
+      case 'GET_HISTORY_USAGE': {
+        return getHistoryUsage();
+      }
+
+      case 'GET_HOURLY_ACTIVITY': {
+        const settings = await getSettings();
+        return getHourlyActivity(message.payload as HourlyActivityQuery, settings.dayStartHour);
+      }
+
+      case 'EXPORT_DATA': {
+        return exportData();
+      }
+
+      case 'IMPORT_DATA': {
+        const request = message.payload as ImportRequest;
+        try {
+          // The options page validated the file for its preview, but payloads are never trusted
+          const backup = parseExportData(request.data);
+          const { settings, keptProfiles } = await getImportSettings(backup, request.mode);
+
+          await updateSettings(settings);
+          return await importData(backup, request.mode, settings, keptProfiles);
+        } catch (error) {
+          logError('Import failed:', error);
+          const result: ImportResult = {
+            success: false,
+            error: error instanceof Error ? error.message : 'Import failed',
+            importedDays: 0,
+            queuedHeartbeats: 0,
+            keptProfiles: []
+          };
+          return result;
+        }
+      }
+
+      case 'TEST_CONNECTION': {
+        const reachable = await checkApiHealth(message.payload as ServerSettings | undefined);
+        return { success: reachable };
+      }
+
+      case 'GET_SERVER_PROFILES': {
+        const settings = await getSettings();
+        const response: ServerProfilesResponse = {
+          profiles: settings.serverProfiles.map(p => ({
+            id: p.id,
+            name: p.name,
+            baseUrl: p.baseUrl,
+            ssoEnabled: Boolean(p.oauth.authorizeUrl)
+          })),
+          activeProfileId: getActiveProfileId()
+        };
+        return response;
+      }
+
+      case 'SWITCH_SERVER_PROFILE': {
+        const settings = await getSettings();
+        const profile = settings.serverProfiles.find(p => p.id === message.payload);
+        if (!profile) {
+          return { success: false };
+        }
+
+        await saveActiveProfileId(profile.id);
+        await switchProfile(profile);
+        return { success: true };
+      }
+
       case 'GET_VISIBILITY': {
         // Content script requesting visibility state (handled directly by content script)
         return null;
@@ -130,18 +522,61 @@ browser.runtime.onMessage.addListener(
   }
 );
 
+// Context menu on web pages
+browser.contextMenus.onClicked.addListener(async (info, tab) => {
+  const url = info.pageUrl || tab?.url;
+
+  switch (info.menuItemId) {
+    case MENU_BLOCK_SITE:
+      await addDomainToSettings(url, 'blocklist');
+      break;
+    case MENU_TRACK_FULL_URL:
+      await addDomainToSettings(url, 'trackFullUrlDomains');
+      break;
+    case MENU_PAUSE_30_MINUTES:
+      await pauseTracking(30);
+      break;
+  }
+});
+
+// Keyboard shortcuts
+browser.commands.onCommand.addListener(async (command) => {
+  log('Command:', command);
+
+  if (command === COMMAND_TOGGLE_PAUSE) {
+    await tracker.togglePause();
+  }
+
+  if (command === COMMAND_BLOCK_SITE) {
+    const [tab] = await browser.tabs.query({ active: true, currentWindow: true });
+    await addDomainToSettings(tab?.url, 'blocklist');
+  }
+});
+
 // Handle extension install/update
 browser.runtime.onInstalled.addListener(async (details) => {
   log('Extension installed/updated:', details.reason);
 
+  // Menus persist, so they are only (re)created on install and update
+  await createContextMenus();
+
   if (details.reason === 'install') {
-    // First install - set default settings
-    const defaultSettings = {
-      blocklist: [],
-      trackFullUrlDomains: []
-    };
-    await saveSettings(defaultSettings);
-    log('Default settings saved');
+    // First install - set default settings, unless another device already synced some
+    const result = await browser.storage.sync.get('settings');
+    if (result.settings) {
+      log('Using settings synced from another device');
+    } else {
+      await saveSettings(DEFAULT_SETTINGS);
+      log('Default settings saved');
+    }
+
+    // Generate the persistent install id that identifies this device
+    await getInstallId();
+  }
+
+  if (details.reason === 'update') {
+    log('Updated from version', details.previousVersion);
+    await runMigrations();
   }
 
   // Re-initialize on update
@@ -155,4 +590,4 @@ browser.runtime.onStartup.addListener(async () => {
 });
 
 // Initialize immediately (for when service worker starts)
-initialize().catch(logError);
+const initialized = initialize().catch(logError);
@@ -0,0 +1,90 @@
+import type { EncryptedSecret } from '@shared/types';
+import { log } from '@shared/config';
+
+// The key never leaves the browser's crypto implementation: it's created
+// non-extractable and IndexedDB stores the CryptoKey object itself
+const DB_NAME = 'keystore';
+const DB_VERSION = 1;
+const KEY_STORE_NAME = 'keys';
+const SECRET_KEY_ID = 'secrets';
+
+let secretKey: Promise<CryptoKey> | null = null;
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes));
+}
+
+function fromBase64(text: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(text), char => char.charCodeAt(0));
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(KEY_STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function runRequest<T>(db: IDBDatabase, mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<T> {
+  return new Promise((resolve, reject) => {
+    const request = fn(db.transaction(KEY_STORE_NAME, mode).objectStore(KEY_STORE_NAME));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function loadOrCreateKey(): Promise<CryptoKey> {
+  const db = await openDatabase();
+
+  try {
+    const existing = await runRequest<CryptoKey | undefined>(db, 'readonly', store => store.get(SECRET_KEY_ID));
+    if (existing) return existing;
+
+    const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+    await runRequest(db, 'readwrite', store => store.put(key, SECRET_KEY_ID));
+    log('Created secret encryption key');
+    return key;
+  } finally {
+    db.close();
+  }
+}
+
+function getKey(): Promise<CryptoKey> {
+  if (!secretKey) {
+    secretKey = loadOrCreateKey().catch(error => {
+      secretKey = null;
+      throw error;
+    });
+  }
+  return secretKey;
+}
+
+/**
+ * Encrypt a secret with AES-GCM for storage outside IndexedDB
+ */
+export async function encryptSecret(plaintext: string): Promise<EncryptedSecret> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: 'AES-GCM', iv },
+    await getKey(),
+    new TextEncoder().encode(plaintext)
+  );
+  return { iv: toBase64(iv), data: toBase64(new Uint8Array(data)) };
+}
+
+/**
+ * Decrypt a secret from encryptSecret. Throws if the key is gone (e.g. site data was cleared)
+ * or the data was tampered with.
+ */
+export async function decryptSecret(secret: EncryptedSecret): Promise<string> {
+  const plaintext = await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: fromBase64(secret.iv) },
+    await getKey(),
+    fromBase64(secret.data)
+  );
+  return new TextDecoder().decode(plaintext);
+}
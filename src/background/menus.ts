@@ -0,0 +1,46 @@
+import browser from 'webextension-polyfill';
+import { log, logError } from '@shared/config';
+
+// Context menu entries on web pages
+export const MENU_BLOCK_SITE = 'block-site';
+export const MENU_TRACK_FULL_URL = 'track-full-url';
+export const MENU_PAUSE_30_MINUTES = 'pause-30-minutes';
+
+// Keyboard commands, declared in the manifest (vite.config.ts)
+export const COMMAND_TOGGLE_PAUSE = 'toggle-pause';
+export const COMMAND_BLOCK_SITE = 'block-current-site';
+
+const PAGE_URL_PATTERNS = ['http://*/*', 'https://*/*'];
+
+/**
+ * (Re)create the context menu. Menus persist across browser restarts,
+ * so this only runs on install and update.
+ */
+export async function createContextMenus(): Promise<void> {
+  try {
+    await browser.contextMenus.removeAll();
+
+    browser.contextMenus.create({
+      id: MENU_BLOCK_SITE,
+      title: "Don't track this site",
+      contexts: ['page'],
+      documentUrlPatterns: PAGE_URL_PATTERNS
+    });
+    browser.contextMenus.create({
+      id: MENU_TRACK_FULL_URL,
+      title: 'Track full URLs on this site',
+      contexts: ['page'],
+      documentUrlPatterns: PAGE_URL_PATTERNS
+    });
+    browser.contextMenus.create({
+      id: MENU_PAUSE_30_MINUTES,
+      title: 'Pause tracking for 30 min',
+      contexts: ['page'],
+      documentUrlPatterns: PAGE_URL_PATTERNS
+    });
+
+    log('Context menus created');
+  } catch (error) {
+    logError('Failed to create context menus:', error);
+  }
+}
@@ -0,0 +1,132 @@
+import browser from 'webextension-polyfill';
+import { STORAGE_SCHEMA_VERSION, log, logError } from '@shared/config';
+import { withDefaultSettings } from '@shared/utils';
+import { getActiveProfile, getSettings, saveSettings } from './storage';
+import { importLegacyDailyStats } from './history';
+
+// Schema version of the data in storage.local, missing before versioning existed (version 0)
+const SCHEMA_VERSION_KEY = 'schemaVersion';
+
+interface Migration {
+  version: number; // Schema version after this migration
+  description: string;
+  migrate?: () => Promise<void>; // Data in storage.local
+  migrateSettings?: (settings: Record<string, unknown>) => Record<string, unknown>; // Synced settings
+}
+
+/**
+ * Ordered steps from one schema version to the next. Never change a released step -
+ * add a new one and bump STORAGE_SCHEMA_VERSION instead. Steps must tolerate
+ * missing data, since they also run on fresh installs. Settings steps must also accept
+ * settings that already have the new layout: a device running an older version writes
+ * synced settings back with its own, older schema version.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    // Settings of the first release only had the blocklist and full URL domains,
+    // which keep their meaning; the fields added since are filled in with defaults
+    version: 1,
+    description: 'Version the activity buffer and tracker state, move the daily stats into history',
+    migrate: async () => {
+      const profile = await getActiveProfile(await getSettings());
+
+      const result = await browser.storage.local.get(['activityBuffer', 'trackerState']);
+      const update: Record<string, unknown> = {};
+
+      const buffer = result.activityBuffer as Record<string, unknown> | undefined;
+      if (buffer) {
+        update.activityBuffer = {
+          ...buffer,
+          // Buffers stored before server profiles existed belong to the active one
+          profileId: typeof buffer.profileId === 'string' ? buffer.profileId : profile.id,
+          // Buffers stored by older versions were always 5 minutes long
+          windowEnd: typeof buffer.windowEnd === 'number' ? buffer.windowEnd : Number(buffer.windowStart) + 5 * 60 * 1000,
+          revision: typeof buffer.revision === 'number' ? buffer.revision : 0,
+          schemaVersion: 1
+        };
+      }
+
+      if (result.trackerState) {
+        update.trackerState = { ...(result.trackerState as object), schemaVersion: 1 };
+      }
+
+      await browser.storage.local.set(update);
+      await importLegacyDailyStats();
+      // The first release kept an event queue that was never sent
+      await browser.storage.local.remove('queuedEvents');
+    }
+  }
+];
+
+let running: Promise<void> | null = null;
+
+async function migrate(): Promise<void> {
+  const result = await browser.storage.local.get(SCHEMA_VERSION_KEY);
+  const storedVersion = (result[SCHEMA_VERSION_KEY] as number | undefined) ?? 0;
+
+  if (storedVersion > STORAGE_SCHEMA_VERSION) {
+    // Downgraded - stored data is validated on load and falls back to defaults where needed
+    log('Storage schema', storedVersion, 'is newer than supported version', STORAGE_SCHEMA_VERSION);
+  }
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion) continue;
+
+    log('Migrating storage to schema', migration.version + ':', migration.description);
+    await migration.migrate?.();
+    // Saved after every step, so a failed migration resumes where it stopped
+    await browser.storage.local.set({ [SCHEMA_VERSION_KEY]: migration.version });
+  }
+
+  await migrateSettings();
+}
+
+function getSettingsVersion(settings: Record<string, unknown>): number {
+  return typeof settings.schemaVersion === 'number' ? settings.schemaVersion : 0;
+}
+
+/**
+ * Whether synced settings were written with an older schema version, e.g. by another device
+ */
+export function needsSettingsMigration(settings: unknown): boolean {
+  return typeof settings === 'object' && settings !== null
+    && getSettingsVersion(settings as Record<string, unknown>) < STORAGE_SCHEMA_VERSION;
+}
+
+// Synced settings carry their own version, since any device may have written them last.
+// They're saved once all steps ran: a partly migrated state would be synced to other devices.
+async function migrateSettings(): Promise<void> {
+  const result = await browser.storage.sync.get('settings');
+  if (!needsSettingsMigration(result.settings)) return;
+
+  let settings = result.settings as Record<string, unknown>;
+  const storedVersion = getSettingsVersion(settings);
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= storedVersion || !migration.migrateSettings) continue;
+
+    log('Migrating settings to schema', migration.version + ':', migration.description);
+    settings = migration.migrateSettings(settings);
+  }
+
+  await saveSettings(withDefaultSettings({ ...settings, schemaVersion: STORAGE_SCHEMA_VERSION }));
+  log('Settings migrated from schema', storedVersion);
+}
+
+/**
+ * Bring stored data and synced settings up to the current schema version. Runs on install
+ * and update, before anything is loaded on startup and when another device synced older
+ * settings; calls while a run is in progress share it.
+ */
+export async function runMigrations(): Promise<void> {
+  if (!running) {
+    running = migrate()
+      .catch(error => {
+        logError('Storage migration failed:', error);
+      })
+      .finally(() => {
+        running = null;
+      });
+  }
+  return running;
+}
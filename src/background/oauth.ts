@@ -0,0 +1,92 @@
+import browser from 'webextension-polyfill';
+import axios from 'axios';
+import type { OAuthSettings, OAuthTokenResponse } from '@shared/types';
+import { log } from '@shared/config';
+
+function base64UrlEncode(bytes: Uint8Array): string {
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function createRandomString(): string {
+  return base64UrlEncode(crypto.getRandomValues(new Uint8Array(32)));
+}
+
+/**
+ * S256 code challenge of a PKCE code verifier (RFC 7636)
+ */
+async function createCodeChallenge(codeVerifier: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(codeVerifier));
+  return base64UrlEncode(new Uint8Array(digest));
+}
+
+async function requestTokens(oauth: OAuthSettings, params: Record<string, string>): Promise<OAuthTokenResponse> {
+  const response = await axios.post<OAuthTokenResponse>(
+    oauth.tokenUrl,
+    new URLSearchParams({ ...params, client_id: oauth.clientId }),
+    { headers: { 'Accept': 'application/json' }, timeout: 10000 }
+  );
+
+  if (!response.data?.access_token) {
+    throw new Error('Token endpoint returned no access token');
+  }
+  return response.data;
+}
+
+/**
+ * Run the authorization code flow with PKCE in a browser-managed window
+ * and exchange the code for tokens
+ */
+export async function authorizeWithPkce(oauth: OAuthSettings): Promise<OAuthTokenResponse> {
+  const redirectUri = browser.identity.getRedirectURL();
+  const codeVerifier = createRandomString();
+  const state = createRandomString();
+
+  const authorizeUrl = new URL(oauth.authorizeUrl);
+  authorizeUrl.searchParams.set('response_type', 'code');
+  authorizeUrl.searchParams.set('client_id', oauth.clientId);
+  authorizeUrl.searchParams.set('redirect_uri', redirectUri);
+  authorizeUrl.searchParams.set('scope', oauth.scope);
+  authorizeUrl.searchParams.set('state', state);
+  authorizeUrl.searchParams.set('code_challenge', await createCodeChallenge(codeVerifier));
+  authorizeUrl.searchParams.set('code_challenge_method', 'S256');
+
+  log('Starting OAuth authorization at', authorizeUrl.origin);
+  const responseUrl = new URL(await browser.identity.launchWebAuthFlow({
+    url: authorizeUrl.toString(),
+    interactive: true
+  }));
+
+  const error = responseUrl.searchParams.get('error');
+  if (error) {
+    throw new Error(responseUrl.searchParams.get('error_description') || `Authorization failed: ${error}`);
+  }
+
+  if (responseUrl.searchParams.get('state') !== state) {
+    throw new Error('Authorization response did not match the request');
+  }
+
+  const code = responseUrl.searchParams.get('code');
+  if (!code) {
+    throw new Error('Authorization response contained no code');
+  }
+
+  return requestTokens(oauth, {
+    grant_type: 'authorization_code',
+    code,
+    redirect_uri: redirectUri,
+    code_verifier: codeVerifier
+  });
+}
+
+/**
+ * Get a new access token from the identity provider
+ */
+export async function refreshOAuthTokens(oauth: OAuthSettings, refreshToken: string): Promise<OAuthTokenResponse> {
+  return requestTokens(oauth, {
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken
+  });
+}
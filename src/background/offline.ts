@@ -0,0 +1,201 @@
+import type { ActivityWindow, QueuedHeartbeat } from '@shared/types';
+import {
+  HEARTBEAT_BATCH_MAX_WINDOWS,
+  RETRY_BASE_DELAY_MS,
+  RETRY_MAX_DELAY_MS,
+  log,
+  logError
+} from '@shared/config';
+import { getTimestamp } from '@shared/utils';
+import { getActiveProfileId, sendHeartbeat, sendHeartbeatBatch } from './api';
+import { authManager } from './auth';
+import {
+  addToOutbox,
+  getOutbox,
+  getOutboxKey,
+  markOutboxAttempt,
+  removeFromOutbox,
+  updateStatsFromWindow
+} from './storage';
+
+/**
+ * Replays heartbeats from the persisted outbox once the API is reachable again.
+ * Failed replays back off exponentially (with jitter) so a down server isn't hammered.
+ */
+class OfflineQueue {
+  private isReplaying: boolean = false;
+  private currentReplay: Promise<boolean> | null = null;
+  private consecutiveFailures: number = 0;
+  private nextAttemptAt: number = 0;
+  private listenersAttached: boolean = false;
+
+  initialize(): void {
+    if (this.listenersAttached) return;
+    this.listenersAttached = true;
+
+    self.addEventListener('online', () => {
+      log('Browser back online, replaying outbox');
+      this.replay(true);
+    });
+
+    self.addEventListener('offline', () => {
+      log('Browser went offline, heartbeats will be queued');
+    });
+  }
+
+  isOnline(): boolean {
+    return navigator.onLine;
+  }
+
+  /**
+   * True while offline or since the last replay or heartbeat failed
+   */
+  isUploadFailing(): boolean {
+    return !this.isOnline() || this.consecutiveFailures > 0;
+  }
+
+  /**
+   * Send queued heartbeats in order, oldest first.
+   * Daily stats are only updated once the server has acknowledged a window.
+   * Returns true if the outbox is empty afterwards.
+   */
+  async replay(force: boolean = false): Promise<boolean> {
+    if (this.isReplaying) return false;
+    if (!authManager.isAuthenticated()) return false;
+
+    if (!this.isOnline()) {
+      log('Offline, skipping outbox replay');
+      return false;
+    }
+
+    if (!force && Date.now() < this.nextAttemptAt) {
+      log('Outbox replay backing off for', Math.round((this.nextAttemptAt - Date.now()) / 1000), 'seconds');
+      return false;
+    }
+
+    this.isReplaying = true;
+    this.currentReplay = this.drain(getActiveProfileId());
+
+    try {
+      return await this.currentReplay;
+    } finally {
+      this.isReplaying = false;
+      this.currentReplay = null;
+    }
+  }
+
+  /**
+   * Resolves once a running replay has finished, so the server profile can be switched safely
+   */
+  async waitForReplay(): Promise<void> {
+    await this.currentReplay;
+  }
+
+  private async drain(profileId: string): Promise<boolean> {
+    try {
+      const outbox = await getOutbox(profileId);
+      let index = 0;
+
+      while (index < outbox.length) {
+        // Never send one profile's queue to another profile's server
+        if (getActiveProfileId() !== profileId) {
+          log('Server profile changed, stopping outbox replay');
+          return false;
+        }
+
+        const chunk = this.takeChunk(outbox, index);
+
+        // Idle-only and gap heartbeats have no window to batch and go out on their own
+        const acknowledged = await sendHeartbeatBatch(profileId, chunk);
+
+        for (const entry of chunk.slice(0, acknowledged)) {
+          if (entry.window) {
+            await updateStatsFromWindow(entry.window);
+          }
+          await removeFromOutbox(profileId, getOutboxKey(entry));
+        }
+        index += acknowledged;
+
+        if (acknowledged < chunk.length) {
+          // Switched mid-send - the rest stays queued for when this profile is active again
+          if (getActiveProfileId() !== profileId) {
+            log('Server profile changed, stopping outbox replay');
+            return false;
+          }
+          await markOutboxAttempt(profileId, getOutboxKey(chunk[acknowledged]));
+          this.scheduleRetry();
+          log('Outbox replay stopped, heartbeats remaining:', outbox.length - index);
+          return false;
+        }
+      }
+
+      this.resetBackoff();
+      return true;
+    } catch (error) {
+      logError('Error replaying outbox:', error);
+      this.scheduleRetry();
+      return false;
+    }
+  }
+
+  /**
+   * Next run of consecutive window entries (up to the batch size), or a single entry without window
+   */
+  private takeChunk(outbox: QueuedHeartbeat[], start: number): QueuedHeartbeat[] {
+    if (!outbox[start].window) {
+      return [outbox[start]];
+    }
+
+    const chunk: QueuedHeartbeat[] = [];
+    for (let i = start; i < outbox.length && chunk.length < HEARTBEAT_BATCH_MAX_WINDOWS; i++) {
+      if (!outbox[i].window) break;
+      chunk.push(outbox[i]);
+    }
+    return chunk;
+  }
+
+  /**
+   * Send the live heartbeat of a profile, queueing it for that profile if it fails.
+   * In-progress windows aren't queued - their final version lands in the outbox on rotation.
+   */
+  async sendOrQueue(profileId: string, window: ActivityWindow | null, isIdle: boolean): Promise<boolean> {
+    const heartbeatAt = getTimestamp();
+    const success = this.isOnline() && await sendHeartbeat(profileId, window, isIdle, heartbeatAt);
+
+    if (!success) {
+      // A profile switch isn't an upload failure
+      if (getActiveProfileId() === profileId) {
+        this.scheduleRetry();
+      }
+      if (isIdle && !window) {
+        await addToOutbox(profileId, {
+          heartbeatAt,
+          isIdle,
+          window: null,
+          queuedAt: Date.now(),
+          attempts: 1
+        });
+      }
+    }
+
+    return success;
+  }
+
+  private scheduleRetry(): void {
+    this.consecutiveFailures += 1;
+    const exponential = RETRY_BASE_DELAY_MS * Math.pow(2, this.consecutiveFailures - 1);
+    const capped = Math.min(exponential, RETRY_MAX_DELAY_MS);
+    // Jitter between 50% and 100% of the delay so clients don't retry in lockstep
+    const delay = capped * (0.5 + Math.random() * 0.5);
+    this.nextAttemptAt = Date.now() + delay;
+    log('Next outbox replay in', Math.round(delay / 1000), 'seconds');
+  }
+
+  resetBackoff(): void {
+    this.consecutiveFailures = 0;
+    this.nextAttemptAt = 0;
+  }
+}
+
+// Export singleton instance
+export const offlineQueue = new OfflineQueue();
@@ -0,0 +1,248 @@
+import browser from 'webextension-polyfill';
+import axios from 'axios';
+import type { PairingStartResponse, PairingState, PairingTokenResponse } from '@shared/types';
+import {
+  PAIRING_DEFAULT_INTERVAL_SECONDS,
+  PAIRING_SLOW_DOWN_SECONDS,
+  log,
+  logError
+} from '@shared/config';
+import { API, getActiveProfileId, getApiEndpoints } from './api';
+import { authManager } from './auth';
+import { getDeviceInfo } from './device';
+import { getSessionStorage } from './storage';
+
+// Alarms survive the service worker being suspended once the popup closes, timeouts don't
+export const PAIRING_POLL_ALARM_NAME = 'pairing-poll';
+
+const PAIRING_STORAGE_KEY = 'pairing';
+
+// What a restarted service worker needs to carry on polling, kept in storage.session
+interface StoredPairing {
+  state: PairingState | null;
+  pairingId: string | null;
+  profileId: string | null;
+  intervalMs: number;
+}
+
+/**
+ * Signs in without a password: the server hands out a short code, the user approves it
+ * in the web app and the extension polls until tokens are issued (modeled on RFC 8628).
+ * Polling runs here rather than in the popup, so closing the popup doesn't abort it.
+ */
+class PairingManager {
+  private state: PairingState | null = null;
+  private pairingId: string | null = null;
+  private profileId: string | null = null;
+  private intervalMs: number = PAIRING_DEFAULT_INTERVAL_SECONDS * 1000;
+  private pollTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private isPolling: boolean = false;
+  private restored: Promise<void> | null = null;
+  private onApprovedCallbacks: Array<() => void> = [];
+
+  async start(): Promise<PairingState> {
+    await this.restore();
+    await this.stopPolling();
+    this.pairingId = null;
+    this.profileId = getActiveProfileId();
+
+    try {
+      const response = await API.post<PairingStartResponse>(getApiEndpoints().pairing, {
+        device: await getDeviceInfo()
+      });
+
+      this.pairingId = response.data.pairingId;
+      this.intervalMs = (response.data.interval ?? PAIRING_DEFAULT_INTERVAL_SECONDS) * 1000;
+      this.state = {
+        status: 'pending',
+        userCode: response.data.userCode,
+        verificationUrl: response.data.verificationUrl,
+        expiresAt: Date.now() + response.data.expiresIn * 1000
+      };
+
+      log('Pairing started, code expires in', response.data.expiresIn, 'seconds');
+      await this.schedulePoll();
+    } catch (error: any) {
+      const errorMessage = error.response?.data?.message || `Pairing failed: ${error.response?.status || 'Network error'}`;
+      logError('Pairing start error:', errorMessage);
+      this.state = { status: 'error', error: errorMessage };
+      await this.save();
+    }
+
+    return this.state;
+  }
+
+  async getState(): Promise<PairingState | null> {
+    await this.restore();
+
+    // Expiry is noticed on the next poll, but the popup shouldn't have to wait for it
+    if (this.state?.status === 'pending' && this.state.expiresAt && Date.now() >= this.state.expiresAt) {
+      await this.finish({ status: 'expired' });
+    }
+    return this.state;
+  }
+
+  onApproved(callback: () => void): void {
+    this.onApprovedCallbacks.push(callback);
+  }
+
+  async cancel(): Promise<void> {
+    await this.restore();
+    if (this.state?.status !== 'pending') return;
+
+    log('Pairing cancelled');
+    await this.finish({ status: 'cancelled' });
+  }
+
+  /**
+   * Called when the poll alarm fires, which may be in a service worker that just started
+   */
+  async handlePollAlarm(): Promise<void> {
+    await this.restore();
+    await this.poll();
+  }
+
+  // Load the pairing of a suspended service worker once
+  private restore(): Promise<void> {
+    if (!this.restored) {
+      this.restored = this.load();
+    }
+    return this.restored;
+  }
+
+  private async load(): Promise<void> {
+    try {
+      const result = await getSessionStorage()?.get(PAIRING_STORAGE_KEY);
+      const stored = result?.[PAIRING_STORAGE_KEY] as StoredPairing | undefined;
+      if (!stored) return;
+
+      this.state = stored.state;
+      this.pairingId = stored.pairingId;
+      this.profileId = stored.profileId;
+      this.intervalMs = stored.intervalMs;
+    } catch (error) {
+      logError('Error loading pairing state:', error);
+    }
+  }
+
+  private async save(): Promise<void> {
+    try {
+      const stored: StoredPairing = {
+        state: this.state,
+        pairingId: this.pairingId,
+        profileId: this.profileId,
+        intervalMs: this.intervalMs
+      };
+      await getSessionStorage()?.set({ [PAIRING_STORAGE_KEY]: stored });
+    } catch (error) {
+      logError('Error saving pairing state:', error);
+    }
+  }
+
+  // The timeout keeps to the server's interval while the service worker runs. The alarm,
+  // which browsers may delay to their minimum alarm period, resumes polling after a suspension.
+  private async schedulePoll(): Promise<void> {
+    this.clearPollTimeout();
+    this.pollTimeoutId = setTimeout(() => {
+      this.poll();
+    }, this.intervalMs);
+
+    try {
+      await browser.alarms.create(PAIRING_POLL_ALARM_NAME, { when: Date.now() + this.intervalMs });
+    } catch (error) {
+      logError('Error scheduling pairing poll:', error);
+    }
+    await this.save();
+  }
+
+  private clearPollTimeout(): void {
+    if (this.pollTimeoutId) {
+      clearTimeout(this.pollTimeoutId);
+      this.pollTimeoutId = null;
+    }
+  }
+
+  private async stopPolling(): Promise<void> {
+    this.clearPollTimeout();
+    try {
+      await browser.alarms.clear(PAIRING_POLL_ALARM_NAME);
+    } catch (error) {
+      logError('Error cancelling pairing poll:', error);
+    }
+  }
+
+  private async finish(state: PairingState): Promise<void> {
+    await this.stopPolling();
+    this.pairingId = null;
+    this.state = { ...this.state, ...state };
+    await this.save();
+  }
+
+  // The timeout and the alarm may both fire for the same poll
+  private async poll(): Promise<void> {
+    if (this.isPolling) return;
+
+    this.isPolling = true;
+    try {
+      await this.pollOnce();
+    } finally {
+      this.isPolling = false;
+    }
+  }
+
+  private async pollOnce(): Promise<void> {
+    this.clearPollTimeout();
+    if (!this.pairingId || !this.profileId || (await this.getState())?.status !== 'pending') return;
+
+    // The code was issued by the previous profile's server
+    if (getActiveProfileId() !== this.profileId) {
+      await this.finish({ status: 'cancelled' });
+      return;
+    }
+
+    const pairingId = this.pairingId;
+
+    try {
+      const response = await API.post<PairingTokenResponse>(getApiEndpoints().pairingToken, { pairingId });
+
+      // Cancelled (or restarted) while the request was in flight
+      if (this.pairingId !== pairingId) return;
+
+      const loggedIn = await authManager.loginWithPairing(response.data, this.profileId);
+      await this.finish(loggedIn ? { status: 'approved' } : { status: 'cancelled' });
+      if (loggedIn) {
+        this.onApprovedCallbacks.forEach(callback => callback());
+      }
+    } catch (error) {
+      if (this.pairingId !== pairingId) return;
+
+      const code = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      switch (code) {
+        case 'authorization_pending':
+          await this.schedulePoll();
+          break;
+        case 'slow_down':
+          this.intervalMs += PAIRING_SLOW_DOWN_SECONDS * 1000;
+          await this.schedulePoll();
+          break;
+        case 'expired_token':
+          await this.finish({ status: 'expired' });
+          break;
+        case 'access_denied':
+          await this.finish({ status: 'denied' });
+          break;
+        default:
+          if (axios.isAxiosError(error) && !error.response) {
+            // Network hiccup - keep trying until the code expires
+            await this.schedulePoll();
+          } else {
+            logError('Pairing poll error:', error);
+            await this.finish({ status: 'error', error: 'Pairing failed, please try again' });
+          }
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const pairingManager = new PairingManager();
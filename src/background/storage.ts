@@ -1,27 +1,65 @@
 import browser from 'webextension-polyfill';
-import type { UserSettings, DailyStats, ActivityEvent, DomainStat, ActivityWindow } from '@shared/types';
-import { log } from '@shared/config';
-import { getTodayDateString } from '@shared/utils';
+import type {
+  UserSettings,
+  DailyStats,
+  DomainStat,
+  ActivityWindow,
+  QueuedHeartbeat,
+  ServerProfile
+} from '@shared/types';
+import { DEFAULT_SETTINGS, OUTBOX_MAX_ENTRIES, OUTBOX_MAX_AGE_MS, STORAGE_SCHEMA_VERSION, log } from '@shared/config';
+import { getTodayDateString, withDefaultSettings } from '@shared/utils';
+import { addWindowToHistory, getHistoryDay } from './history';
 
-const DEFAULT_SETTINGS: UserSettings = {
-  blocklist: [],
-  trackFullUrlDomains: []
-};
+// Not every supported browser has storage.session; callers keep such data in memory without it
+export function getSessionStorage(): typeof browser.storage.session | null {
+  return browser.storage.session || null;
+}
+
+// Install id (local to this browser profile, never synced)
+const INSTALL_ID_STORAGE_KEY = 'installId';
+
+export async function getInstallId(): Promise<string> {
+  const result = await browser.storage.local.get(INSTALL_ID_STORAGE_KEY);
+  const existing = result[INSTALL_ID_STORAGE_KEY] as string | undefined;
+  if (existing) {
+    return existing;
+  }
+
+  const installId = crypto.randomUUID();
+  await browser.storage.local.set({ [INSTALL_ID_STORAGE_KEY]: installId });
+  log('Generated install id:', installId);
+  return installId;
+}
+
+// Device label (per install, so not part of the synced settings)
+const DEVICE_LABEL_STORAGE_KEY = 'deviceLabel';
+
+export async function getDeviceLabel(): Promise<string | undefined> {
+  try {
+    const result = await browser.storage.local.get(DEVICE_LABEL_STORAGE_KEY);
+    return result[DEVICE_LABEL_STORAGE_KEY] as string | undefined;
+  } catch (error) {
+    log('Error getting device label:', error);
+    return undefined;
+  }
+}
 
-function createEmptyDailyStats(): DailyStats {
-  return {
-    date: getTodayDateString(),
-    totalActiveTime: 0,
-    totalBackgroundTime: 0,
-    domainStats: {}
-  };
+export async function saveDeviceLabel(label: string): Promise<void> {
+  try {
+    await browser.storage.local.set({ [DEVICE_LABEL_STORAGE_KEY]: label });
+    log('Device label saved:', label);
+  } catch (error) {
+    log('Error saving device label:', error);
+    throw error;
+  }
 }
 
 // Settings (synced across devices)
 export async function getSettings(): Promise<UserSettings> {
   try {
     const result = await browser.storage.sync.get('settings');
-    return result.settings || DEFAULT_SETTINGS;
+    return withDefaultSettings(result.settings);
   } catch (error) {
     log('Error getting settings:', error);
     return DEFAULT_SETTINGS;
@@ -38,105 +76,234 @@ export async function saveSettings(settings: UserSettings): Promise<void> {
   }
 }
 
-// Daily stats (local storage)
-export async function getDailyStats(): Promise<DailyStats> {
-  try {
-    const today = getTodayDateString();
-    const result = await browser.storage.local.get('dailyStats');
-    const stats = result.dailyStats as DailyStats | undefined;
-
-    // Reset stats if it's a new day
-    if (!stats || stats.date !== today) {
-      const newStats = createEmptyDailyStats();
-      await saveDailyStats(newStats);
-      return newStats;
-    }
+// Active server profile (per install, so switching doesn't affect other devices)
+const ACTIVE_PROFILE_STORAGE_KEY = 'activeProfileId';
 
-    return stats;
+/**
+ * The profile selected on this device, or the first one if it was removed
+ */
+export async function getActiveProfile(settings: UserSettings): Promise<ServerProfile> {
+  try {
+    const result = await browser.storage.local.get(ACTIVE_PROFILE_STORAGE_KEY);
+    const activeId = result[ACTIVE_PROFILE_STORAGE_KEY] as string | undefined;
+    return settings.serverProfiles.find(p => p.id === activeId) || settings.serverProfiles[0];
   } catch (error) {
-    log('Error getting daily stats:', error);
-    return createEmptyDailyStats();
+    log('Error getting active profile:', error);
+    return settings.serverProfiles[0];
   }
 }
 
-export async function saveDailyStats(stats: DailyStats): Promise<void> {
+export async function saveActiveProfileId(profileId: string): Promise<void> {
   try {
-    await browser.storage.local.set({ dailyStats: stats });
+    await browser.storage.local.set({ [ACTIVE_PROFILE_STORAGE_KEY]: profileId });
+    log('Active profile saved:', profileId);
   } catch (error) {
-    log('Error saving daily stats:', error);
+    log('Error saving active profile:', error);
+    throw error;
   }
 }
 
-export async function updateDomainTime(
-  domain: string,
-  duration: number,
-  isBackground: boolean
-): Promise<void> {
-  const stats = await getDailyStats();
+// Daily stats (today's entry of the local history)
+export async function getDailyStats(): Promise<DailyStats> {
+  const settings = await getSettings();
+  const { windows: _windows, ...stats } = await getHistoryDay(getTodayDateString(settings.dayStartHour));
+  return stats;
+}
 
-  if (!stats.domainStats[domain]) {
-    stats.domainStats[domain] = {
-      domain,
-      activeTime: 0,
-      backgroundTime: 0,
-      visits: 0
-    };
+// Outbox of heartbeats awaiting server acknowledgement (finalized windows and failed sends).
+// Each server profile has its own, so nothing is ever sent to a profile it wasn't recorded for.
+const OUTBOX_KEY_PREFIX = 'outbox:';
+
+function getOutboxStorageKey(profileId: string): string {
+  return OUTBOX_KEY_PREFIX + profileId;
+}
+
+// Serializes read-modify-write cycles so the tracker and the replay loop
+// can't overwrite each other's changes
+let outboxLock: Promise<unknown> = Promise.resolve();
+
+function withOutboxLock<T>(fn: () => Promise<T>): Promise<T> {
+  const run = outboxLock.then(fn, fn);
+  outboxLock = run.catch(() => undefined);
+  return run;
+}
+
+/**
+ * Identity of an outbox entry - windows are keyed by their start,
+ * idle-only heartbeats by their original timestamp
+ */
+export function getOutboxKey(entry: QueuedHeartbeat): string {
+  return entry.window?.windowStart ?? entry.heartbeatAt;
+}
+
+async function readOutbox(profileId: string): Promise<QueuedHeartbeat[]> {
+  const key = getOutboxStorageKey(profileId);
+  const result = await browser.storage.local.get(key);
+  return (result[key] as QueuedHeartbeat[] | undefined) || [];
+}
+
+/**
+ * Drop entries that are too old and trim the oldest ones beyond the size cap
+ */
+function capOutbox(outbox: QueuedHeartbeat[]): QueuedHeartbeat[] {
+  const minQueuedAt = Date.now() - OUTBOX_MAX_AGE_MS;
+  const fresh = outbox.filter(entry => entry.queuedAt >= minQueuedAt);
+  const capped = fresh.slice(-OUTBOX_MAX_ENTRIES);
+
+  if (capped.length < outbox.length) {
+    log('Dropped', outbox.length - capped.length, 'heartbeats from outbox (age/size cap)');
   }
+  return capped;
+}
 
-  const domainStat = stats.domainStats[domain];
-  if (isBackground) {
-    domainStat.backgroundTime += duration;
-    stats.totalBackgroundTime += duration;
-  } else {
-    domainStat.activeTime += duration;
-    stats.totalActiveTime += duration;
+export async function getOutbox(profileId: string): Promise<QueuedHeartbeat[]> {
+  try {
+    return await withOutboxLock(() => readOutbox(profileId));
+  } catch (error) {
+    log('Error getting outbox:', error);
+    return [];
   }
-  domainStat.visits += 1;
+}
 
-  await saveDailyStats(stats);
+export async function addToOutbox(profileId: string, entry: QueuedHeartbeat): Promise<void> {
+  try {
+    await withOutboxLock(async () => {
+      const key = getOutboxKey(entry);
+      const outbox = await readOutbox(profileId);
+      // An entry is only queued once; replace instead of duplicating
+      const filtered = outbox.filter(e => getOutboxKey(e) !== key);
+      filtered.push(entry);
+      filtered.sort((a, b) => getOutboxKey(a).localeCompare(getOutboxKey(b)));
+      const capped = capOutbox(filtered);
+      await browser.storage.local.set({ [getOutboxStorageKey(profileId)]: capped });
+      log('Added heartbeat to outbox of profile', profileId, 'total:', capped.length);
+    });
+  } catch (error) {
+    log('Error adding heartbeat to outbox:', error);
+  }
 }
 
-// Event queue (for failed API calls)
-export async function getQueuedEvents(): Promise<ActivityEvent[]> {
+export async function markOutboxAttempt(profileId: string, key: string): Promise<void> {
   try {
-    const result = await browser.storage.local.get('queuedEvents');
-    return result.queuedEvents || [];
+    await withOutboxLock(async () => {
+      const outbox = await readOutbox(profileId);
+      for (const entry of outbox) {
+        if (getOutboxKey(entry) === key) {
+          entry.attempts += 1;
+        }
+      }
+      await browser.storage.local.set({ [getOutboxStorageKey(profileId)]: capOutbox(outbox) });
+    });
   } catch (error) {
-    log('Error getting queued events:', error);
-    return [];
+    log('Error updating outbox entry:', error);
   }
 }
 
-export async function addQueuedEvents(events: ActivityEvent[]): Promise<void> {
+export async function removeFromOutbox(profileId: string, key: string): Promise<void> {
   try {
-    const existing = await getQueuedEvents();
-    const combined = [...existing, ...events];
-    await browser.storage.local.set({ queuedEvents: combined });
-    log('Added events to queue, total:', combined.length);
+    await withOutboxLock(async () => {
+      const outbox = await readOutbox(profileId);
+      const filtered = outbox.filter(e => getOutboxKey(e) !== key);
+      await browser.storage.local.set({ [getOutboxStorageKey(profileId)]: filtered });
+    });
   } catch (error) {
-    log('Error adding queued events:', error);
+    log('Error removing heartbeat from outbox:', error);
   }
 }
 
-export async function clearQueuedEvents(): Promise<void> {
+export async function clearOutbox(profileId: string): Promise<void> {
   try {
-    await browser.storage.local.set({ queuedEvents: [] });
-    log('Cleared event queue');
+    await withOutboxLock(async () => {
+      await browser.storage.local.remove(getOutboxStorageKey(profileId));
+    });
   } catch (error) {
-    log('Error clearing queued events:', error);
+    log('Error clearing outbox:', error);
   }
 }
 
+/**
+ * Drop the outboxes of profiles that no longer exist
+ */
+export async function removeOrphanedOutboxes(profileIds: string[]): Promise<void> {
+  try {
+    await withOutboxLock(async () => {
+      const all = await browser.storage.local.get(null);
+      const orphaned = Object.keys(all).filter(key =>
+        key.startsWith(OUTBOX_KEY_PREFIX) && !profileIds.includes(key.slice(OUTBOX_KEY_PREFIX.length))
+      );
+      if (orphaned.length > 0) {
+        await browser.storage.local.remove(orphaned);
+        log('Removed outboxes of deleted profiles:', orphaned);
+      }
+    });
+  } catch (error) {
+    log('Error removing orphaned outboxes:', error);
+  }
+}
+
+/**
+ * All outboxes by server profile id, for backups
+ */
+export async function getAllOutboxes(): Promise<Record<string, QueuedHeartbeat[]>> {
+  return withOutboxLock(async () => {
+    const all = await browser.storage.local.get(null);
+    return Object.fromEntries(
+      Object.entries(all)
+        .filter(([key]) => key.startsWith(OUTBOX_KEY_PREFIX))
+        .map(([key, outbox]) => [key.slice(OUTBOX_KEY_PREFIX.length), outbox as QueuedHeartbeat[]])
+    );
+  });
+}
+
+/**
+ * Add heartbeats from a backup to a profile's outbox. Entries that are already queued
+ * stay as they are. Returns how many imported entries are queued afterwards.
+ */
+export async function mergeIntoOutbox(profileId: string, entries: QueuedHeartbeat[]): Promise<number> {
+  return withOutboxLock(async () => {
+    const outbox = await readOutbox(profileId);
+    const queued = new Set(outbox.map(getOutboxKey));
+    const added = entries.filter(entry => !queued.has(getOutboxKey(entry)));
+
+    const merged = [...outbox, ...added];
+    merged.sort((a, b) => getOutboxKey(a).localeCompare(getOutboxKey(b)));
+    const capped = capOutbox(merged);
+    await browser.storage.local.set({ [getOutboxStorageKey(profileId)]: capped });
+
+    log('Imported', added.length, 'heartbeats into outbox of profile', profileId);
+    return added.filter(entry => capped.includes(entry)).length;
+  });
+}
+
 // Tracker state persistence
 export interface PersistedTrackerState {
   isPaused: boolean;
   sessionStartTime: number;
+  pausedAt?: number; // When the user paused, reported as a gap on resume
+  resumeAt?: number; // End of a timed pause
+}
+
+function isPersistedTrackerState(value: unknown): value is PersistedTrackerState {
+  const state = value as Partial<PersistedTrackerState> | null;
+  const isOptionalNumber = (field: unknown) => field === undefined || typeof field === 'number';
+  return typeof state === 'object' && state !== null
+    && typeof state.isPaused === 'boolean'
+    && typeof state.sessionStartTime === 'number'
+    && isOptionalNumber(state.pausedAt)
+    && isOptionalNumber(state.resumeAt);
 }
 
 export async function getTrackerState(): Promise<PersistedTrackerState> {
   try {
     const result = await browser.storage.local.get('trackerState');
-    return result.trackerState || {
+    if (isPersistedTrackerState(result.trackerState)) {
+      return result.trackerState;
+    }
+
+    if (result.trackerState !== undefined) {
+      log('Ignoring invalid tracker state from storage');
+    }
+    return {
       isPaused: false,
       sessionStartTime: Date.now()
     };
@@ -151,7 +318,7 @@ export async function getTrackerState(): Promise<PersistedTrackerState> {
 
 export async function saveTrackerState(state: PersistedTrackerState): Promise<void> {
   try {
-    await browser.storage.local.set({ trackerState: state });
+    await browser.storage.local.set({ trackerState: { ...state, schemaVersion: STORAGE_SCHEMA_VERSION } });
   } catch (error) {
     log('Error saving tracker state:', error);
   }
@@ -169,33 +336,7 @@ export async function getTopDomains(limit: number = 5): Promise<DomainStat[]> {
 
 // Update daily stats from activity window
 export async function updateStatsFromWindow(window: ActivityWindow): Promise<void> {
-  const stats = await getDailyStats();
-
-  for (const activity of window.activities) {
-    const domain = activity.domain;
-
-    if (!stats.domainStats[domain]) {
-      stats.domainStats[domain] = {
-        domain,
-        activeTime: 0,
-        backgroundTime: 0,
-        visits: 0
-      };
-    }
-
-    const domainStat = stats.domainStats[domain];
-    const activeMs = activity.activeSeconds * 1000;
-    const backgroundMs = activity.backgroundSeconds * 1000;
-
-    domainStat.activeTime += activeMs;
-    domainStat.backgroundTime += backgroundMs;
-    stats.totalActiveTime += activeMs;
-    stats.totalBackgroundTime += backgroundMs;
-
-    // Increment visits (one per activity in window)
-    domainStat.visits += 1;
-  }
-
-  await saveDailyStats(stats);
+  const settings = await getSettings();
+  await addWindowToHistory(window, settings.dayStartHour);
   log('Updated daily stats from window');
 }
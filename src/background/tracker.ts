@@ -1,21 +1,31 @@
 import browser from 'webextension-polyfill';
 import type { TabState, UserSettings, StatsResponse, ActivityWindow, WindowActivity } from '@shared/types';
 import {
-  DEBOUNCE_THRESHOLD_MS,
-  IDLE_THRESHOLD_SECONDS,
-  log
+  DEFAULT_SETTINGS,
+  STORAGE_SCHEMA_VERSION,
+  log,
+  logError
 } from '@shared/config';
 import {
   extractDomain,
-  isDomainBlocked,
-  isTrackableUrl
+  isUrlBlocked,
+  isTrackableUrl,
+  getTimestamp,
+  shouldTrackFullUrl,
+  getCategory,
+  redactUrl,
+  withDefaultSettings
 } from '@shared/utils';
 import {
   getSettings,
   getDailyStats,
   getTrackerState,
-  saveTrackerState
+  saveTrackerState,
+  addToOutbox,
+  getOutbox,
+  getInstallId
 } from './storage';
+import { needsSettingsMigration } from './migrations';
 
 interface PendingTabState {
   tabId: number;
@@ -33,46 +43,104 @@ interface DomainBuffer {
 }
 
 interface ActivityBuffer {
-  windowStart: number; // Unix timestamp in ms, rounded to 5-min boundary
+  profileId: string; // Server profile the activity was recorded for
+  windowStart: number; // Unix timestamp in ms, rounded to window boundary (or the moment of a profile switch)
+  windowEnd: number; // Unix timestamp in ms, exclusive
+  revision: number; // Last revision handed out for a heartbeat
   domains: Map<string, DomainBuffer>;
 }
 
-const WINDOW_DURATION_MS = 5 * 60 * 1000; // 5 minutes
+// ActivityBuffer as persisted under 'activityBuffer' in storage.local
+interface StoredActivityBuffer extends Omit<ActivityBuffer, 'domains'> {
+  schemaVersion: number;
+  domains: Record<string, {
+    activeSeconds: number;
+    backgroundSeconds: number;
+    urlVisits: Record<string, number>;
+  }>;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+/**
+ * Check a stored buffer before trusting it; anything else is discarded rather than
+ * sending garbage. Older layouts are upgraded by the migrations before this runs.
+ */
+function isStoredActivityBuffer(value: unknown): value is StoredActivityBuffer {
+  const data = value as Partial<StoredActivityBuffer> | null;
+  if (typeof data !== 'object' || data === null) return false;
+  if (typeof data.profileId !== 'string' || !isFiniteNumber(data.revision)) return false;
+  if (!isFiniteNumber(data.windowStart) || !isFiniteNumber(data.windowEnd) || data.windowEnd <= data.windowStart) {
+    return false;
+  }
+  if (typeof data.domains !== 'object' || data.domains === null) return false;
+
+  return Object.values(data.domains).every(domain =>
+    typeof domain === 'object' && domain !== null &&
+    isFiniteNumber(domain.activeSeconds) &&
+    isFiniteNumber(domain.backgroundSeconds) &&
+    typeof domain.urlVisits === 'object' && domain.urlVisits !== null &&
+    Object.values(domain.urlVisits).every(isFiniteNumber)
+  );
+}
+
 const TICK_INTERVAL_MS = 1000; // Check every second
 
+// Ends a timed pause; an alarm because the service worker may be suspended by then
+export const PAUSE_END_ALARM_NAME = 'pause-end';
+
 class ActivityTracker {
   private activeTab: TabState | null = null;
   private backgroundTabs: Map<number, TabState> = new Map();
   private visibleTabs: Set<number> = new Set();
   private audibleTabs: Set<number> = new Set();
   private videoPlayingTabs: Set<number> = new Set();
+  private incognitoTabs: Set<number> = new Set(); // Private tabs seen so far, see isIncognitoExcluded
   private isIdle: boolean = false;
   private isPaused: boolean = false;
+  private pausedAt: number | null = null; // Set by user pauses, reported as a gap on resume
+  private resumeAt: number | null = null; // End of a timed pause
   private sessionStartTime: number = Date.now();
-  private settings: UserSettings = { blocklist: [], trackFullUrlDomains: [] };
+  private settings: UserSettings = DEFAULT_SETTINGS;
   private pendingStarts: Map<number, PendingTabState> = new Map();
 
   // Window aggregation
   private activityBuffer: ActivityBuffer | null = null;
+  private installId: string = '';
+  private profileId: string = '';
   private lastTickAt: number = Date.now();
   private tickInterval: ReturnType<typeof setInterval> | null = null;
+  private onStatusChangeCallbacks: Array<() => void> = [];
 
-  async initialize(): Promise<void> {
+  async initialize(profileId: string): Promise<void> {
     log('Initializing ActivityTracker');
+    this.profileId = profileId;
 
     // Load settings
     this.settings = await getSettings();
 
+    // Apply the configured idle threshold
+    browser.idle.setDetectionInterval(this.settings.idleThresholdSeconds);
+
     // Load persisted state
     const state = await getTrackerState();
     this.isPaused = state.isPaused;
     this.sessionStartTime = state.sessionStartTime;
+    this.pausedAt = state.pausedAt ?? null;
+    this.resumeAt = state.resumeAt ?? null;
 
     // Save state to ensure sessionStartTime persists across restarts
-    await saveTrackerState({
-      isPaused: this.isPaused,
-      sessionStartTime: this.sessionStartTime
-    });
+    await this.saveState();
+
+    // Alarms don't necessarily survive a browser restart; a past end fires right away
+    if (this.isPaused && this.resumeAt) {
+      await this.schedulePauseEnd();
+    }
+
+    // Install id is part of every window id
+    this.installId = await getInstallId();
 
     // Load or create activity buffer
     await this.loadOrCreateBuffer();
@@ -109,7 +177,7 @@ class ActivityTracker {
     browser.tabs.onUpdated.addListener(async (tabId, changeInfo, tab) => {
       if (changeInfo.url) {
         log('Tab URL changed:', tabId, changeInfo.url);
-        await this.handleTabUrlChanged(tabId, changeInfo.url);
+        await this.handleTabUrlChanged(tabId, changeInfo.url, tab);
       }
       if (changeInfo.audible !== undefined) {
         log('Tab audible changed:', tabId, changeInfo.audible);
@@ -131,8 +199,9 @@ class ActivityTracker {
 
     // Settings change
     browser.storage.onChanged.addListener((changes, areaName) => {
-      if (areaName === 'sync' && changes.settings) {
-        this.settings = changes.settings.newValue;
+      // Settings of an older version are applied once they're migrated and saved again
+      if (areaName === 'sync' && changes.settings && !needsSettingsMigration(changes.settings.newValue)) {
+        this.updateSettings(withDefaultSettings(changes.settings.newValue));
         log('Settings updated:', this.settings);
       }
     });
@@ -167,7 +236,12 @@ class ActivityTracker {
 
         if (tabs.length > 0 && tabs[0].id !== undefined && tabs[0].url) {
           const domain = extractDomain(tabs[0].url);
-          if (isTrackableUrl(tabs[0].url) && !isDomainBlocked(domain, this.settings.blocklist)) {
+          this.noteIncognito(tabs[0].id, tabs[0].incognito);
+          if (
+            isTrackableUrl(tabs[0].url) &&
+            !isUrlBlocked(tabs[0].url, this.settings) &&
+            !this.isIncognitoExcluded(tabs[0].id)
+          ) {
             await this.startActiveTracking(tabs[0].id, tabs[0].url, domain);
           }
         }
@@ -180,13 +254,13 @@ class ActivityTracker {
           this.audibleTabs.add(tab.id);
           // Check if this audible tab should be tracked as background
           if (this.activeTab?.tabId !== tab.id) {
-            await this.maybeStartBackgroundTracking(tab.id, tab.url || '');
+            await this.maybeStartBackgroundTracking(tab.id, tab.url || '', tab.incognito);
           }
         }
       }
 
       // Check initial idle state
-      const idleState = await browser.idle.queryState(IDLE_THRESHOLD_SECONDS);
+      const idleState = await browser.idle.queryState(this.settings.idleThresholdSeconds);
       if (idleState !== 'active') {
         this.isIdle = true;
       }
@@ -231,12 +305,14 @@ class ActivityTracker {
         return;
       }
 
-      const domain = extractDomain(tab.url);
-      if (isDomainBlocked(domain, this.settings.blocklist)) {
+      this.noteIncognito(tabId, tab.incognito);
+      if (isUrlBlocked(tab.url, this.settings) || this.isIncognitoExcluded(tabId)) {
         await this.endActiveTracking();
         return;
       }
 
+      const domain = extractDomain(tab.url);
+
       // If we're already tracking this exact tab as active, don't restart
       if (this.activeTab && this.activeTab.tabId === tabId && this.activeTab.domain === domain) {
         log('Already tracking this tab, maintaining session');
@@ -333,11 +409,11 @@ class ActivityTracker {
     }
   }
 
-  private async handleTabUrlChanged(tabId: number, url: string): Promise<void> {
+  private async handleTabUrlChanged(tabId: number, url: string, tab: browser.Tabs.Tab): Promise<void> {
     if (this.isPaused) return;
 
     const domain = extractDomain(url);
-    const isBlocked = isDomainBlocked(domain, this.settings.blocklist);
+    const isBlocked = isUrlBlocked(url, this.settings);
     const isTrackable = isTrackableUrl(url);
 
     // Check if this is the active tab
@@ -362,10 +438,16 @@ class ActivityTracker {
         await this.endBackgroundTracking(tabId);
       } else if (bgTab.domain !== domain) {
         await this.endBackgroundTracking(tabId);
-        await this.maybeStartBackgroundTracking(tabId, url);
+        await this.maybeStartBackgroundTracking(tabId, url, tab.incognito);
       } else {
         bgTab.url = url;
       }
+      return;
+    }
+
+    // The active tab moved on from a blocked path (or a browser page) to a page that is tracked
+    if (!this.activeTab && tab.active && tab.windowId !== undefined && isTrackable && !isBlocked) {
+      await this.handleTabActivated(tabId, tab.windowId);
     }
   }
 
@@ -376,7 +458,7 @@ class ActivityTracker {
       if (this.activeTab?.tabId !== tabId) {
         const tab = await browser.tabs.get(tabId);
         if (tab.url) {
-          await this.maybeStartBackgroundTracking(tabId, tab.url);
+          await this.maybeStartBackgroundTracking(tabId, tab.url, tab.incognito);
         }
       }
     } else {
@@ -397,7 +479,7 @@ class ActivityTracker {
       if (this.activeTab?.tabId !== tabId) {
         browser.tabs.get(tabId).then(tab => {
           if (tab.url) {
-            this.maybeStartBackgroundTracking(tabId, tab.url);
+            this.maybeStartBackgroundTracking(tabId, tab.url, tab.incognito);
           }
         }).catch(() => {
           // Tab may have been closed
@@ -421,7 +503,7 @@ class ActivityTracker {
       if (this.activeTab?.tabId !== tabId) {
         browser.tabs.get(tabId).then(tab => {
           if (tab.url) {
-            this.maybeStartBackgroundTracking(tabId, tab.url);
+            this.maybeStartBackgroundTracking(tabId, tab.url, tab.incognito);
           }
         }).catch(() => {
           // Tab may have been closed
@@ -448,6 +530,7 @@ class ActivityTracker {
     this.visibleTabs.delete(tabId);
     this.audibleTabs.delete(tabId);
     this.videoPlayingTabs.delete(tabId);
+    this.incognitoTabs.delete(tabId);
 
     if (this.activeTab?.tabId === tabId) {
       await this.endActiveTracking();
@@ -465,6 +548,10 @@ class ActivityTracker {
     } else if (!this.isIdle && wasIdle) {
       log('User became active');
     }
+
+    if (this.isIdle !== wasIdle) {
+      this.notifyStatusChange();
+    }
   }
 
   private async startActiveTracking(tabId: number, url: string, domain: string): Promise<void> {
@@ -482,7 +569,7 @@ class ActivityTracker {
     const timeoutId = setTimeout(() => {
       this.pendingStarts.delete(tabId);
       this.confirmActiveStart(tabId, url, domain);
-    }, DEBOUNCE_THRESHOLD_MS);
+    }, this.getDebounceMs());
 
     this.pendingStarts.set(tabId, {
       tabId,
@@ -493,7 +580,7 @@ class ActivityTracker {
       timeoutId
     });
 
-    log('Scheduled active tracking start for', domain, 'in', DEBOUNCE_THRESHOLD_MS, 'ms');
+    log('Scheduled active tracking start for', domain, 'in', this.getDebounceMs(), 'ms');
   }
 
   private confirmActiveStart(tabId: number, url: string, domain: string): void {
@@ -509,6 +596,7 @@ class ActivityTracker {
     };
 
     log('Started active tracking:', domain);
+    this.notifyStatusChange();
   }
 
   private async endActiveTracking(): Promise<void> {
@@ -531,17 +619,20 @@ class ActivityTracker {
 
     log('Ended active tracking:', tab.domain, 'duration:', duration);
     this.activeTab = null;
+    this.notifyStatusChange();
   }
 
-  private async maybeStartBackgroundTracking(tabId: number, url: string): Promise<void> {
+  private async maybeStartBackgroundTracking(tabId: number, url: string, incognito: boolean): Promise<void> {
     if (this.isPaused || this.isIdle) return;
     if (this.backgroundTabs.has(tabId)) return;
     if (this.activeTab?.tabId === tabId) return;
 
     if (!isTrackableUrl(url)) return;
 
+    this.noteIncognito(tabId, incognito);
+    if (isUrlBlocked(url, this.settings) || this.isIncognitoExcluded(tabId)) return;
+
     const domain = extractDomain(url);
-    if (isDomainBlocked(domain, this.settings.blocklist)) return;
 
     // Check if tab is visible, audible, or has playing video
     const isVisible = this.visibleTabs.has(tabId);
@@ -561,7 +652,7 @@ class ActivityTracker {
     const timeoutId = setTimeout(() => {
       this.pendingStarts.delete(tabId);
       this.confirmBackgroundStart(tabId, url, domain);
-    }, DEBOUNCE_THRESHOLD_MS);
+    }, this.getDebounceMs());
 
     this.pendingStarts.set(tabId, {
       tabId,
@@ -572,7 +663,7 @@ class ActivityTracker {
       timeoutId
     });
 
-    log('Scheduled background tracking start for', domain, 'in', DEBOUNCE_THRESHOLD_MS, 'ms');
+    log('Scheduled background tracking start for', domain, 'in', this.getDebounceMs(), 'ms');
   }
 
   private confirmBackgroundStart(tabId: number, url: string, domain: string): void {
@@ -612,19 +703,35 @@ class ActivityTracker {
     this.backgroundTabs.delete(tabId);
   }
 
+  private getDebounceMs(): number {
+    return this.settings.debounceSeconds * 1000;
+  }
+
   // Window aggregation methods
+  private getWindowDurationMs(): number {
+    return this.settings.windowMinutes * 60 * 1000;
+  }
+
   private roundToWindowBoundary(timestamp: number): number {
-    return Math.floor(timestamp / WINDOW_DURATION_MS) * WINDOW_DURATION_MS;
+    const duration = this.getWindowDurationMs();
+    return Math.floor(timestamp / duration) * duration;
+  }
+
+  private getNextWindowBoundary(timestamp: number): number {
+    return this.roundToWindowBoundary(timestamp) + this.getWindowDurationMs();
   }
 
   private async loadOrCreateBuffer(): Promise<void> {
     try {
       const stored = await browser.storage.local.get('activityBuffer');
-      if (stored.activityBuffer) {
-        const data = stored.activityBuffer;
+      const data = stored.activityBuffer;
+      if (isStoredActivityBuffer(data)) {
         this.activityBuffer = {
+          profileId: data.profileId,
           windowStart: data.windowStart,
-          domains: new Map(Object.entries(data.domains).map(([domain, buffer]: [string, any]) => [
+          windowEnd: data.windowEnd,
+          revision: data.revision,
+          domains: new Map(Object.entries(data.domains).map(([domain, buffer]) => [
             domain,
             {
               activeSeconds: buffer.activeSeconds,
@@ -635,18 +742,26 @@ class ActivityTracker {
         };
         log('Loaded activity buffer from storage');
       } else {
+        if (data !== undefined) {
+          logError('Discarding invalid activity buffer from storage');
+        }
         this.createNewBuffer();
       }
     } catch (error) {
       log('Error loading buffer, creating new:', error);
       this.createNewBuffer();
     }
+
+    // The stored buffer may belong to a window that ended while the worker was asleep
+    await this.rotateWindowIfNeeded();
   }
 
-  private createNewBuffer(): void {
-    const now = Date.now();
+  private createNewBuffer(windowStart: number = this.roundToWindowBoundary(Date.now())): void {
     this.activityBuffer = {
-      windowStart: this.roundToWindowBoundary(now),
+      profileId: this.profileId,
+      windowStart,
+      windowEnd: this.getNextWindowBoundary(windowStart),
+      revision: 0,
       domains: new Map()
     };
     log('Created new activity buffer for window:', new Date(this.activityBuffer.windowStart).toISOString());
@@ -656,8 +771,12 @@ class ActivityTracker {
     if (!this.activityBuffer) return;
 
     try {
-      const data = {
+      const data: StoredActivityBuffer = {
+        schemaVersion: STORAGE_SCHEMA_VERSION,
+        profileId: this.activityBuffer.profileId,
         windowStart: this.activityBuffer.windowStart,
+        windowEnd: this.activityBuffer.windowEnd,
+        revision: this.activityBuffer.revision,
         domains: Object.fromEntries(
           Array.from(this.activityBuffer.domains.entries()).map(([domain, buffer]) => [
             domain,
@@ -675,6 +794,68 @@ class ActivityTracker {
     }
   }
 
+  /**
+   * Move the buffer into the outbox once its window has ended and start a new one.
+   * The swap happens synchronously so the caller keeps accumulating into the new window.
+   */
+  async rotateWindowIfNeeded(now: number = Date.now()): Promise<void> {
+    if (!this.activityBuffer || now < this.activityBuffer.windowEnd) {
+      return;
+    }
+
+    log('Window boundary crossed, moving finished window to outbox');
+    const finishedBuffer = this.activityBuffer;
+    finishedBuffer.revision += 1;
+    // Continue right where the finished window ended, unless the worker slept past it
+    this.createNewBuffer(Math.max(finishedBuffer.windowEnd, this.roundToWindowBoundary(now)));
+
+    await this.queueFinishedBuffer(finishedBuffer);
+    await this.persistBuffer();
+  }
+
+  /**
+   * Record for another server profile from now on. The current window is cut short and
+   * queued for the profile it was recorded for; the next one starts at the switch.
+   */
+  async switchProfile(profileId: string): Promise<void> {
+    if (profileId === this.profileId) return;
+
+    log('Switching tracker to profile', profileId);
+    const now = Date.now();
+    const finishedBuffer = this.activityBuffer;
+    this.profileId = profileId;
+    this.createNewBuffer(now);
+
+    if (finishedBuffer) {
+      finishedBuffer.windowEnd = now;
+      finishedBuffer.revision += 1;
+      await this.queueFinishedBuffer(finishedBuffer);
+    }
+    await this.persistBuffer();
+  }
+
+  /**
+   * Drop the in-progress window without queueing it
+   */
+  async discardBuffer(): Promise<void> {
+    log('Discarding in-progress window');
+    this.createNewBuffer();
+    await this.persistBuffer();
+  }
+
+  private async queueFinishedBuffer(buffer: ActivityBuffer): Promise<void> {
+    const finishedWindow = this.bufferToWindow(buffer, true);
+    if (finishedWindow) {
+      await addToOutbox(buffer.profileId, {
+        heartbeatAt: getTimestamp(),
+        isIdle: this.isIdle,
+        window: finishedWindow,
+        queuedAt: Date.now(),
+        attempts: 0
+      });
+    }
+  }
+
   private startTicker(): void {
     // Clear any existing ticker
     if (this.tickInterval) {
@@ -707,12 +888,7 @@ class ActivityTracker {
     }
 
     // Check if we need to rotate to a new window
-    const currentWindowStart = this.roundToWindowBoundary(now);
-    if (this.activityBuffer && this.activityBuffer.windowStart !== currentWindowStart) {
-      log('Window boundary crossed, creating new buffer');
-      // The old buffer will be sent in the next heartbeat
-      this.createNewBuffer();
-    }
+    this.rotateWindowIfNeeded(now);
 
     if (!this.activityBuffer) {
       this.createNewBuffer();
@@ -736,9 +912,7 @@ class ActivityTracker {
         buffer.activeSeconds += elapsedSeconds;
       }
 
-      // Always track full URL
-      const url = this.activeTab.url;
-      buffer.urlVisits.set(url, (buffer.urlVisits.get(url) || 0) + elapsedSeconds);
+      this.recordUrlVisit(buffer, this.activeTab, elapsedSeconds);
     }
 
     // Accumulate time for background tabs
@@ -755,9 +929,7 @@ class ActivityTracker {
         const buffer = this.activityBuffer!.domains.get(domain)!;
         buffer.backgroundSeconds += elapsedSeconds;
 
-        // Always track full URL
-        const url = bgTab.url;
-        buffer.urlVisits.set(url, (buffer.urlVisits.get(url) || 0) + elapsedSeconds);
+        this.recordUrlVisit(buffer, bgTab, elapsedSeconds);
       }
     }
 
@@ -767,21 +939,52 @@ class ActivityTracker {
     }
   }
 
+  private recordUrlVisit(buffer: DomainBuffer, tab: TabState, seconds: number): void {
+    // Domains not on the full URL list are sent domain-only
+    if (!shouldTrackFullUrl(tab.domain, this.settings)) return;
+
+    // Private tabs only ever report full URLs under the 'track' policy
+    if (this.incognitoTabs.has(tab.tabId) && this.settings.incognitoPolicy !== 'track') return;
+
+    const redactedUrl = redactUrl(tab.url, this.settings.urlRedaction);
+    buffer.urlVisits.set(redactedUrl, (buffer.urlVisits.get(redactedUrl) || 0) + seconds);
+  }
+
   getActivityWindow(): ActivityWindow | null {
+    if (!this.activityBuffer) {
+      return null;
+    }
+
+    const isFinal = Date.now() >= this.activityBuffer.windowEnd;
+
+    return this.bufferToWindow(this.activityBuffer, isFinal);
+  }
+
+  /**
+   * Same as getActivityWindow, but bumps the revision so the server can tell
+   * this send apart from earlier sends of the same window
+   */
+  getHeartbeatWindow(): ActivityWindow | null {
     if (!this.activityBuffer || this.activityBuffer.domains.size === 0) {
       return null;
     }
 
-    const now = Date.now();
-    const currentWindowStart = this.roundToWindowBoundary(now);
-    const isFinal = this.activityBuffer.windowStart < currentWindowStart;
+    this.activityBuffer.revision += 1;
+    this.persistBuffer();
+    return this.getActivityWindow();
+  }
+
+  private bufferToWindow(buffer: ActivityBuffer, isFinal: boolean): ActivityWindow | null {
+    if (buffer.domains.size === 0) {
+      return null;
+    }
 
     const activities: WindowActivity[] = [];
-    for (const [domain, buffer] of this.activityBuffer.domains.entries()) {
+    for (const [domain, domainBuffer] of buffer.domains.entries()) {
       // Find most visited URL for this domain
       let mostVisitedUrl: string | undefined;
       let maxSeconds = 0;
-      for (const [url, seconds] of buffer.urlVisits.entries()) {
+      for (const [url, seconds] of domainBuffer.urlVisits.entries()) {
         if (seconds > maxSeconds) {
           maxSeconds = seconds;
           mostVisitedUrl = url;
@@ -790,31 +993,32 @@ class ActivityTracker {
 
       const activity: WindowActivity = {
         domain,
-        activeSeconds: buffer.activeSeconds,
-        backgroundSeconds: buffer.backgroundSeconds
+        category: getCategory(domain, this.settings.categoryRules),
+        activeSeconds: domainBuffer.activeSeconds,
+        backgroundSeconds: domainBuffer.backgroundSeconds
       };
 
-      // Always include the most visited URL
-      if (mostVisitedUrl) {
+      // Include the most visited URL, unless the domain was removed from the full URL list mid-window
+      if (mostVisitedUrl && shouldTrackFullUrl(domain, this.settings)) {
         activity.url = mostVisitedUrl;
       }
 
       activities.push(activity);
     }
 
+    const windowStart = new Date(buffer.windowStart).toISOString();
+
     return {
-      windowStart: new Date(this.activityBuffer.windowStart).toISOString(),
-      windowMinutes: 5,
+      id: `${this.installId}:${windowStart}`,
+      revision: buffer.revision,
+      windowStart,
+      // Windows cut short by a profile switch are rounded up to whole minutes
+      windowMinutes: Math.ceil((buffer.windowEnd - buffer.windowStart) / 60000),
       isFinal,
       activities
     };
   }
 
-  clearCurrentBuffer(): void {
-    this.createNewBuffer();
-    this.persistBuffer();
-  }
-
   // Public methods
   async setPaused(paused: boolean): Promise<void> {
     if (this.isPaused === paused) return;
@@ -834,22 +1038,114 @@ class ActivityTracker {
       this.pendingStarts.clear();
     } else {
       // Resume tracking
+      await this.queuePauseGap();
+      this.resumeAt = null;
+      await this.schedulePauseEnd();
       await this.initializeCurrentState();
     }
 
-    await saveTrackerState({
-      isPaused: this.isPaused,
-      sessionStartTime: this.sessionStartTime
-    });
+    await this.saveState();
 
     log('Tracking', this.isPaused ? 'paused' : 'resumed');
+    this.notifyStatusChange();
+  }
+
+  /**
+   * Pause on the user's request, until the given time or until resumed if null
+   */
+  async pause(until: number | null = null): Promise<void> {
+    this.resumeAt = until;
+    await this.schedulePauseEnd();
+
+    if (this.isPaused) {
+      // Only the end of the pause changes
+      await this.saveState();
+      this.notifyStatusChange();
+      return;
+    }
+
+    this.pausedAt = Date.now();
+    await this.setPaused(true);
+    log('Paused', until ? `until ${new Date(until).toLocaleString()}` : 'until resumed');
+  }
+
+  /**
+   * Forget when a timed pause ends, but stay paused (e.g. while signed out)
+   */
+  async clearPauseEnd(): Promise<void> {
+    this.resumeAt = null;
+    await this.schedulePauseEnd();
+    await this.saveState();
+    this.notifyStatusChange();
   }
 
   async togglePause(): Promise<boolean> {
-    await this.setPaused(!this.isPaused);
+    if (this.isPaused) {
+      await this.setPaused(false);
+    } else {
+      await this.pause();
+    }
     return this.isPaused;
   }
 
+  private async schedulePauseEnd(): Promise<void> {
+    try {
+      if (this.resumeAt) {
+        await browser.alarms.create(PAUSE_END_ALARM_NAME, { when: Math.max(this.resumeAt, Date.now()) });
+      } else {
+        await browser.alarms.clear(PAUSE_END_ALARM_NAME);
+      }
+    } catch (error) {
+      logError('Error scheduling pause end:', error);
+    }
+  }
+
+  // Tell the server the time since the user paused was a pause, not inactivity
+  private async queuePauseGap(): Promise<void> {
+    if (!this.pausedAt) return;
+
+    const now = getTimestamp();
+    await addToOutbox(this.profileId, {
+      heartbeatAt: now,
+      isIdle: false,
+      window: null,
+      gap: {
+        from: new Date(this.pausedAt).toISOString(),
+        to: now,
+        reason: 'paused'
+      },
+      queuedAt: Date.now(),
+      attempts: 0
+    });
+    this.pausedAt = null;
+  }
+
+  private async saveState(): Promise<void> {
+    await saveTrackerState({
+      isPaused: this.isPaused,
+      sessionStartTime: this.sessionStartTime,
+      pausedAt: this.pausedAt ?? undefined,
+      resumeAt: this.resumeAt ?? undefined
+    });
+  }
+
+  /**
+   * Called when tracking is paused or resumed, the user goes idle or back, or the active site changes
+   */
+  onStatusChange(callback: () => void): void {
+    this.onStatusChangeCallbacks.push(callback);
+  }
+
+  private notifyStatusChange(): void {
+    for (const callback of this.onStatusChangeCallbacks) {
+      try {
+        callback();
+      } catch (error) {
+        logError('Error in status change callback:', error);
+      }
+    }
+  }
+
   getIsIdle(): boolean {
     return this.isIdle;
   }
@@ -880,6 +1176,7 @@ class ActivityTracker {
     }
 
     const currentWindow = this.getActivityWindow();
+    const outbox = await getOutbox(this.profileId);
 
     return {
       todayStats,
@@ -891,12 +1188,76 @@ class ActivityTracker {
         pendingDomain
       },
       currentWindow: currentWindow || undefined,
+      pendingHeartbeats: outbox.length,
+      resumeAt: this.isPaused ? this.resumeAt ?? undefined : undefined,
       status
     };
   }
 
   updateSettings(newSettings: UserSettings): void {
+    const previous = this.settings;
     this.settings = newSettings;
+
+    if (newSettings.idleThresholdSeconds !== previous.idleThresholdSeconds) {
+      browser.idle.setDetectionInterval(newSettings.idleThresholdSeconds);
+      log('Idle threshold changed to', newSettings.idleThresholdSeconds, 'seconds');
+    }
+
+    if (newSettings.windowMinutes !== previous.windowMinutes && this.activityBuffer) {
+      // End the current window at the first boundary of the new length (or its own end,
+      // if that comes first), so windows never overlap and later ones stay aligned
+      this.activityBuffer.windowEnd = Math.min(
+        this.activityBuffer.windowEnd,
+        this.getNextWindowBoundary(Date.now())
+      );
+      log('Window length changed to', newSettings.windowMinutes, 'minutes');
+      this.persistBuffer();
+    }
+
+    if (
+      newSettings.trackingMode !== previous.trackingMode ||
+      newSettings.incognitoPolicy !== previous.incognitoPolicy ||
+      newSettings.blocklist.join() !== previous.blocklist.join() ||
+      newSettings.allowlist.join() !== previous.allowlist.join()
+    ) {
+      this.stopTrackingBlockedTabs();
+    }
+  }
+
+  private noteIncognito(tabId: number, incognito: boolean): void {
+    if (incognito) {
+      this.incognitoTabs.add(tabId);
+    }
+  }
+
+  /**
+   * True for private tabs while the incognito policy is 'never'
+   */
+  private isIncognitoExcluded(tabId: number): boolean {
+    return this.incognitoTabs.has(tabId) && this.settings.incognitoPolicy === 'never';
+  }
+
+  // Newly blocked sites stop counting right away, not only on the next tab change
+  private async stopTrackingBlockedTabs(): Promise<void> {
+    for (const [tabId, pending] of this.pendingStarts) {
+      if (isUrlBlocked(pending.url, this.settings) || this.isIncognitoExcluded(tabId)) {
+        clearTimeout(pending.timeoutId);
+        this.pendingStarts.delete(tabId);
+      }
+    }
+
+    if (
+      this.activeTab &&
+      (isUrlBlocked(this.activeTab.url, this.settings) || this.isIncognitoExcluded(this.activeTab.tabId))
+    ) {
+      await this.endActiveTracking();
+    }
+
+    for (const [tabId, tab] of this.backgroundTabs) {
+      if (isUrlBlocked(tab.url, this.settings) || this.isIncognitoExcluded(tabId)) {
+        await this.endBackgroundTracking(tabId);
+      }
+    }
   }
 }
 
@@ -0,0 +1,267 @@
+import browser from 'webextension-polyfill';
+import type { HistoryDay, HourlyActivity, DomainStat } from '@shared/types';
+import { formatDuration, getTodayDateString, shiftDateString, withDefaultSettings } from '@shared/utils';
+
+// DOM Elements
+const rangeButtons = document.querySelectorAll<HTMLButtonElement>('.range-btn');
+const dailyTitle = document.getElementById('daily-title') as HTMLElement;
+const dailyChart = document.getElementById('daily-chart') as HTMLElement;
+const domainTable = document.getElementById('domain-table') as HTMLUListElement;
+const clearDomainBtn = document.getElementById('clear-domain-btn') as HTMLButtonElement;
+const heatmapTitle = document.getElementById('heatmap-title') as HTMLElement;
+const heatmap = document.getElementById('heatmap') as HTMLElement;
+
+let rangeDays = 7;
+let dayStartHour = 0;
+let selectedDomain: string | null = null;
+let days: HistoryDay[] = [];
+
+async function loadDayStartHour(): Promise<void> {
+  try {
+    const result = await browser.storage.sync.get('settings');
+    dayStartHour = withDefaultSettings(result.settings).dayStartHour;
+  } catch (error) {
+    console.error('Failed to load settings:', error);
+  }
+}
+
+async function fetchHistory(from: string, to: string): Promise<HistoryDay[]> {
+  try {
+    const response = await browser.runtime.sendMessage({
+      type: 'GET_HISTORY',
+      payload: { from, to }
+    });
+    return response as HistoryDay[];
+  } catch (error) {
+    console.error('Failed to fetch history:', error);
+    return [];
+  }
+}
+
+async function fetchHourlyActivity(from: string, to: string, domain: string | null): Promise<HourlyActivity[]> {
+  try {
+    const response = await browser.runtime.sendMessage({
+      type: 'GET_HOURLY_ACTIVITY',
+      payload: { from, to, domain: domain || undefined }
+    });
+    return response as HourlyActivity[];
+  } catch (error) {
+    console.error('Failed to fetch hourly activity:', error);
+    return [];
+  }
+}
+
+/**
+ * All dates of the selected range, oldest first, including days without activity
+ */
+function getRangeDates(): string[] {
+  const today = getTodayDateString(dayStartHour);
+  const dates: string[] = [];
+  for (let offset = rangeDays - 1; offset >= 0; offset--) {
+    dates.push(shiftDateString(today, -offset));
+  }
+  return dates;
+}
+
+function formatDateLabel(date: string): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString(undefined, {
+    month: 'short',
+    day: 'numeric'
+  });
+}
+
+/**
+ * Active and background time of a day, limited to the selected domain if any
+ */
+function getDayTotals(day: HistoryDay | undefined): { active: number; background: number } {
+  if (!day) {
+    return { active: 0, background: 0 };
+  }
+  if (selectedDomain) {
+    const stat = day.domainStats[selectedDomain];
+    return { active: stat?.activeTime || 0, background: stat?.backgroundTime || 0 };
+  }
+  return { active: day.totalActiveTime, background: day.totalBackgroundTime };
+}
+
+function renderDailyChart(): void {
+  dailyTitle.textContent = selectedDomain ? `Daily Activity: ${selectedDomain}` : 'Daily Activity';
+
+  const dates = getRangeDates();
+  const dayByDate = new Map(days.map(day => [day.date, day]));
+  const totals = dates.map(date => getDayTotals(dayByDate.get(date)));
+  const maxTotal = Math.max(...totals.map(t => t.active + t.background));
+
+  if (maxTotal === 0) {
+    dailyChart.innerHTML = '<p class="empty-state">No activity recorded in this period</p>';
+    return;
+  }
+
+  // Label every day for a week, every fifth day for a month
+  const labelEvery = rangeDays > 7 ? 5 : 1;
+
+  dailyChart.innerHTML = dates
+    .map(function(date, index) {
+      const { active, background } = totals[index];
+      const activePercent = (active / maxTotal) * 100;
+      const backgroundPercent = (background / maxTotal) * 100;
+      const showLabel = (dates.length - 1 - index) % labelEvery === 0;
+      const title = `${formatDateLabel(date)}: ${formatDuration(active)} active, ${formatDuration(background)} background`;
+      return `
+        <div class="bar-column" title="${escapeHtml(title)}">
+          <div class="bar-stack">
+            <div class="bar-segment background" style="height: ${backgroundPercent}%"></div>
+            <div class="bar-segment active" style="height: ${activePercent}%"></div>
+          </div>
+          <span class="bar-label">${showLabel ? escapeHtml(formatDateLabel(date)) : '&nbsp;'}</span>
+        </div>
+      `;
+    })
+    .join('');
+}
+
+function renderDomainTable(): void {
+  // Sum domain stats over the range
+  const domainTotals = new Map<string, DomainStat>();
+  for (const day of days) {
+    for (const stat of Object.values(day.domainStats)) {
+      const total = domainTotals.get(stat.domain) || {
+        domain: stat.domain,
+        activeTime: 0,
+        backgroundTime: 0,
+        visits: 0
+      };
+      total.activeTime += stat.activeTime;
+      total.backgroundTime += stat.backgroundTime;
+      total.visits += stat.visits;
+      domainTotals.set(stat.domain, total);
+    }
+  }
+
+  clearDomainBtn.classList.toggle('hidden', !selectedDomain);
+
+  if (domainTotals.size === 0) {
+    domainTable.innerHTML = '<li class="empty-state">No activity recorded in this period</li>';
+    return;
+  }
+
+  const rows = Array.from(domainTotals.values())
+    .sort((a, b) => (b.activeTime + b.backgroundTime) - (a.activeTime + a.backgroundTime));
+
+  domainTable.innerHTML = `
+    <li class="header-row">
+      <span>Domain</span>
+      <span class="numeric">Active</span>
+      <span class="numeric">Background</span>
+      <span class="numeric">Total</span>
+    </li>
+  ` + rows
+    .map(function(stat) {
+      const selected = stat.domain === selectedDomain ? ' selected' : '';
+      return `
+        <li class="domain-row${selected}" data-domain="${escapeHtml(stat.domain)}">
+          <span class="domain-name">${escapeHtml(stat.domain)}</span>
+          <span class="numeric">${formatDuration(stat.activeTime)}</span>
+          <span class="numeric">${formatDuration(stat.backgroundTime)}</span>
+          <span class="numeric">${formatDuration(stat.activeTime + stat.backgroundTime)}</span>
+        </li>
+      `;
+    })
+    .join('');
+
+  // Drill down into a domain on click
+  domainTable.querySelectorAll<HTMLElement>('.domain-row').forEach(row => {
+    row.addEventListener('click', function(this: HTMLElement) {
+      const domain = this.dataset.domain || null;
+      selectDomain(domain === selectedDomain ? null : domain);
+    });
+  });
+}
+
+async function renderHeatmap(): Promise<void> {
+  heatmapTitle.textContent = selectedDomain
+    ? `Activity by Hour of Day: ${selectedDomain}`
+    : 'Activity by Hour of Day';
+
+  const dates = getRangeDates();
+  const hourly = await fetchHourlyActivity(dates[0], dates[dates.length - 1], selectedDomain);
+  const hourlyByDate = new Map(hourly.map(h => [h.date, h]));
+  const maxSeconds = Math.max(0, ...hourly.flatMap(h => h.activeSeconds.map((a, i) => a + h.backgroundSeconds[i])));
+
+  if (maxSeconds === 0) {
+    heatmap.innerHTML = '<p class="empty-state">No activity recorded in this period</p>';
+    return;
+  }
+
+  let html = '<span></span>';
+  for (let hour = 0; hour < 24; hour++) {
+    html += `<span class="heatmap-hour">${hour % 3 === 0 ? hour : ''}</span>`;
+  }
+
+  // Newest day on top
+  for (const date of [...dates].reverse()) {
+    html += `<span class="heatmap-label">${escapeHtml(formatDateLabel(date))}</span>`;
+    const day = hourlyByDate.get(date);
+    for (let hour = 0; hour < 24; hour++) {
+      const seconds = day ? day.activeSeconds[hour] + day.backgroundSeconds[hour] : 0;
+      const intensity = seconds / maxSeconds;
+      const style = seconds > 0 ? ` style="background: rgba(25, 118, 210, ${0.15 + intensity * 0.85})"` : '';
+      const title = `${formatDateLabel(date)} ${hour}:00 - ${formatDuration(seconds * 1000)}`;
+      html += `<span class="heatmap-cell"${style} title="${escapeHtml(title)}"></span>`;
+    }
+  }
+
+  heatmap.innerHTML = html;
+}
+
+function escapeHtml(text: string): string {
+  const div = document.createElement('div');
+  div.textContent = text;
+  return div.innerHTML;
+}
+
+function selectDomain(domain: string | null): void {
+  selectedDomain = domain;
+  renderDailyChart();
+  renderDomainTable();
+  renderHeatmap();
+}
+
+async function loadRange(daysInRange: number): Promise<void> {
+  rangeDays = daysInRange;
+  rangeButtons.forEach(btn => {
+    btn.classList.toggle('active', Number(btn.dataset.days) === rangeDays);
+  });
+
+  const dates = getRangeDates();
+  days = await fetchHistory(dates[0], dates[dates.length - 1]);
+
+  // Keep the drill-down only if the domain still has activity in the new range
+  if (selectedDomain && !days.some(day => selectedDomain! in day.domainStats)) {
+    selectedDomain = null;
+  }
+
+  renderDailyChart();
+  renderDomainTable();
+  await renderHeatmap();
+}
+
+function setupEventListeners(): void {
+  rangeButtons.forEach(btn => {
+    btn.addEventListener('click', () => {
+      loadRange(Number(btn.dataset.days));
+    });
+  });
+
+  clearDomainBtn.addEventListener('click', () => {
+    selectDomain(null);
+  });
+}
+
+// Initialize
+document.addEventListener('DOMContentLoaded', async () => {
+  setupEventListeners();
+  await loadDayStartHour();
+  loadRange(rangeDays);
+});
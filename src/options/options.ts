@@ -1,28 +1,134 @@
 import browser from 'webextension-polyfill';
-import type { UserSettings } from '@shared/types';
+import type {
+  ApiEndpoints,
+  Category,
+  DeviceInfo,
+  ExportData,
+  HistoryDay,
+  ImportMode,
+  ImportResult,
+  IncognitoPolicy,
+  HistoryUsage,
+  OAuthSettings,
+  ServerProfile,
+  ServerProfilesResponse,
+  ServerSettings,
+  UserSettings
+} from '@shared/types';
+import {
+  API_BASE_URL,
+  DEFAULT_API_ENDPOINTS,
+  DEFAULT_OAUTH_SETTINGS,
+  DEBOUNCE_MIN_SECONDS,
+  DEBOUNCE_MAX_SECONDS,
+  HEARTBEAT_MIN_SECONDS,
+  HEARTBEAT_MAX_SECONDS,
+  IDLE_MIN_SECONDS,
+  IDLE_MAX_SECONDS,
+  WINDOW_MINUTES_OPTIONS,
+  HISTORY_RETENTION_MIN_DAYS,
+  HISTORY_RETENTION_MAX_DAYS,
+  CATEGORIES,
+  CATEGORY_LABELS
+} from '@shared/config';
+import {
+  getServerOriginPattern,
+  getTodayDateString,
+  isValidDomainPattern,
+  isValidPattern,
+  isValidServerUrl,
+  isValidUrlPattern,
+  parseExportData,
+  shiftDateString,
+  withDefaultSettings
+} from '@shared/utils';
 
 // DOM Elements
+const profileSelect = document.getElementById('profile-select') as HTMLSelectElement;
+const addProfileBtn = document.getElementById('add-profile') as HTMLButtonElement;
+const deleteProfileBtn = document.getElementById('delete-profile') as HTMLButtonElement;
+const profileNameInput = document.getElementById('profile-name-input') as HTMLInputElement;
+const serverUrlInput = document.getElementById('server-url-input') as HTMLInputElement;
+const endpointInputs: Record<keyof ApiEndpoints, HTMLInputElement> = {
+  activity: document.getElementById('endpoint-activity') as HTMLInputElement,
+  activityBatch: document.getElementById('endpoint-activity-batch') as HTMLInputElement,
+  login: document.getElementById('endpoint-login') as HTMLInputElement,
+  refresh: document.getElementById('endpoint-refresh') as HTMLInputElement,
+  logout: document.getElementById('endpoint-logout') as HTMLInputElement,
+  pairing: document.getElementById('endpoint-pairing') as HTMLInputElement,
+  pairingToken: document.getElementById('endpoint-pairing-token') as HTMLInputElement
+};
+const oauthRedirectUrl = document.getElementById('oauth-redirect-url') as HTMLElement;
+const oauthAuthorizeUrlInput = document.getElementById('oauth-authorize-url') as HTMLInputElement;
+const oauthTokenUrlInput = document.getElementById('oauth-token-url') as HTMLInputElement;
+const oauthClientIdInput = document.getElementById('oauth-client-id') as HTMLInputElement;
+const oauthScopeInput = document.getElementById('oauth-scope') as HTMLInputElement;
+const saveServerBtn = document.getElementById('save-server') as HTMLButtonElement;
+const testConnectionBtn = document.getElementById('test-connection') as HTMLButtonElement;
+
+const deviceLabelInput = document.getElementById('device-label-input') as HTMLInputElement;
+const saveDeviceLabelBtn = document.getElementById('save-device-label') as HTMLButtonElement;
+const deviceDetails = document.getElementById('device-details') as HTMLElement;
+
 const blocklistInput = document.getElementById('blocklist-input') as HTMLInputElement;
 const addBlocklistBtn = document.getElementById('add-blocklist') as HTMLButtonElement;
 const blocklistEl = document.getElementById('blocklist') as HTMLUListElement;
 
+const allowlistModeCheckbox = document.getElementById('allowlist-mode') as HTMLInputElement;
+const allowlistInput = document.getElementById('allowlist-input') as HTMLInputElement;
+const addAllowlistBtn = document.getElementById('add-allowlist') as HTMLButtonElement;
+const allowlistEl = document.getElementById('allowlist') as HTMLUListElement;
+
 const fullurlInput = document.getElementById('fullurl-input') as HTMLInputElement;
 const addFullurlBtn = document.getElementById('add-fullurl') as HTMLButtonElement;
 const fullurlList = document.getElementById('fullurl-list') as HTMLUListElement;
 
+const categoryPatternInput = document.getElementById('category-pattern-input') as HTMLInputElement;
+const categorySelect = document.getElementById('category-select') as HTMLSelectElement;
+const addCategoryRuleBtn = document.getElementById('add-category-rule') as HTMLButtonElement;
+const categoryRuleList = document.getElementById('category-rule-list') as HTMLUListElement;
+
+const stripQueryCheckbox = document.getElementById('strip-query') as HTMLInputElement;
+const stripFragmentCheckbox = document.getElementById('strip-fragment') as HTMLInputElement;
+const maskPatternInput = document.getElementById('mask-pattern-input') as HTMLInputElement;
+const addMaskPatternBtn = document.getElementById('add-mask-pattern') as HTMLButtonElement;
+const maskPatternList = document.getElementById('mask-pattern-list') as HTMLUListElement;
+
+const debounceSecondsInput = document.getElementById('debounce-seconds') as HTMLInputElement;
+const idleThresholdSecondsInput = document.getElementById('idle-threshold-seconds') as HTMLInputElement;
+const heartbeatSecondsInput = document.getElementById('heartbeat-seconds') as HTMLInputElement;
+const windowMinutesSelect = document.getElementById('window-minutes') as HTMLSelectElement;
+const incognitoPolicySelect = document.getElementById('incognito-policy') as HTMLSelectElement;
+const badgeSiteTimeCheckbox = document.getElementById('badge-site-time') as HTMLInputElement;
+
+const retentionDaysInput = document.getElementById('retention-days') as HTMLInputElement;
+const dayStartHourSelect = document.getElementById('day-start-hour') as HTMLSelectElement;
+const historyUsage = document.getElementById('history-usage') as HTMLElement;
+
+const exportJsonBtn = document.getElementById('export-json') as HTMLButtonElement;
+const exportCsvBtn = document.getElementById('export-csv') as HTMLButtonElement;
+const importJsonBtn = document.getElementById('import-json') as HTMLButtonElement;
+const importFileInput = document.getElementById('import-file') as HTMLInputElement;
+const importPreview = document.getElementById('import-preview') as HTMLElement;
+const importSummary = document.getElementById('import-summary') as HTMLUListElement;
+const confirmImportBtn = document.getElementById('confirm-import') as HTMLButtonElement;
+const cancelImportBtn = document.getElementById('cancel-import') as HTMLButtonElement;
+
 const saveStatus = document.getElementById('save-status') as HTMLElement;
 
-let settings: UserSettings = {
-  blocklist: [],
-  trackFullUrlDomains: []
-};
+let settings: UserSettings = withDefaultSettings();
+let selectedProfileId: string | null = null;
+let pendingImport: ExportData | null = null;
 
 async function loadSettings(): Promise<void> {
   try {
     const result = await browser.storage.sync.get('settings');
-    if (result.settings) {
-      settings = result.settings;
-    }
+    settings = withDefaultSettings(result.settings);
+
+    // Start out editing the profile that is in use
+    const profiles = await browser.runtime.sendMessage({ type: 'GET_SERVER_PROFILES' }) as ServerProfilesResponse;
+    selectedProfileId = profiles.activeProfileId;
+
     renderLists();
   } catch (error) {
     console.error('Failed to load settings:', error);
@@ -45,6 +151,395 @@ async function saveSettings(): Promise<void> {
   }
 }
 
+/**
+ * Server settings as entered in the form, or null (with an error shown) if invalid
+ */
+function readServerForm(): ServerSettings | null {
+  const baseUrl = serverUrlInput.value.trim().replace(/\/+$/, '');
+
+  if (!isValidServerUrl(baseUrl)) {
+    showStatus('Please enter a valid http(s) URL', true);
+    return null;
+  }
+
+  const endpoints = { ...DEFAULT_API_ENDPOINTS };
+  for (const key of Object.keys(endpointInputs) as Array<keyof ApiEndpoints>) {
+    const path = endpointInputs[key].value.trim();
+    if (!path) continue;
+
+    if (!path.startsWith('/')) {
+      showStatus('Endpoint paths must start with "/"', true);
+      return null;
+    }
+    endpoints[key] = path;
+  }
+
+  return { baseUrl, endpoints };
+}
+
+/**
+ * Single sign-on settings as entered in the form, or null (with an error shown) if invalid
+ */
+function readOAuthForm(): OAuthSettings | null {
+  const oauth: OAuthSettings = {
+    authorizeUrl: oauthAuthorizeUrlInput.value.trim(),
+    tokenUrl: oauthTokenUrlInput.value.trim(),
+    clientId: oauthClientIdInput.value.trim(),
+    scope: oauthScopeInput.value.trim() || DEFAULT_OAUTH_SETTINGS.scope
+  };
+
+  if (!oauth.authorizeUrl) {
+    return { ...DEFAULT_OAUTH_SETTINGS, scope: oauth.scope };
+  }
+
+  if (!isValidServerUrl(oauth.authorizeUrl) || !isValidServerUrl(oauth.tokenUrl)) {
+    showStatus('Please enter valid authorize and token URLs', true);
+    return null;
+  }
+
+  if (!oauth.clientId) {
+    showStatus('Please enter the client ID', true);
+    return null;
+  }
+
+  return oauth;
+}
+
+/**
+ * Ask for access to the server's origin (and the token endpoint's, for single sign-on).
+ * Must run directly from a click handler, browsers only show the prompt in response to a user action.
+ */
+async function requestServerPermission(server: ServerSettings, oauth?: OAuthSettings): Promise<boolean> {
+  const origins = [getServerOriginPattern(server.baseUrl)];
+  if (oauth?.tokenUrl) {
+    origins.push(getServerOriginPattern(oauth.tokenUrl));
+  }
+
+  try {
+    const granted = await browser.permissions.request({ origins });
+    if (!granted) {
+      showStatus('Permission to access the server was denied', true);
+    }
+    return granted;
+  } catch (error) {
+    console.error('Failed to request server permission:', error);
+    showStatus('Failed to request server permission', true);
+    return false;
+  }
+}
+
+function getSelectedProfile(): ServerProfile {
+  return settings.serverProfiles.find(p => p.id === selectedProfileId) || settings.serverProfiles[0];
+}
+
+async function saveServer(): Promise<void> {
+  const server = readServerForm();
+  const oauth = server && readOAuthForm();
+  if (!server || !oauth || !(await requestServerPermission(server, oauth))) return;
+
+  const profile = getSelectedProfile();
+  profile.name = profileNameInput.value.trim() || profile.name;
+  profile.baseUrl = server.baseUrl;
+  profile.endpoints = server.endpoints;
+  profile.oauth = oauth;
+  await saveSettings();
+  renderServer();
+}
+
+async function addProfile(): Promise<void> {
+  const profile: ServerProfile = {
+    id: crypto.randomUUID(),
+    name: `Profile ${settings.serverProfiles.length + 1}`,
+    baseUrl: API_BASE_URL,
+    endpoints: { ...DEFAULT_API_ENDPOINTS },
+    oauth: { ...DEFAULT_OAUTH_SETTINGS }
+  };
+
+  settings.serverProfiles.push(profile);
+  selectedProfileId = profile.id;
+  await saveSettings();
+  renderServer();
+  profileNameInput.focus();
+}
+
+async function deleteProfile(): Promise<void> {
+  if (settings.serverProfiles.length <= 1) {
+    showStatus('At least one server profile is required', true);
+    return;
+  }
+
+  const profile = getSelectedProfile();
+  if (!confirm(`Delete "${profile.name}"? Its sign-in and unsent activity on this device are removed too.`)) {
+    return;
+  }
+
+  settings.serverProfiles = settings.serverProfiles.filter(p => p.id !== profile.id);
+  selectedProfileId = settings.serverProfiles[0].id;
+  await saveSettings();
+  renderServer();
+}
+
+async function testConnection(): Promise<void> {
+  const server = readServerForm();
+  if (!server || !(await requestServerPermission(server))) return;
+
+  testConnectionBtn.disabled = true;
+  try {
+    const response = await browser.runtime.sendMessage({
+      type: 'TEST_CONNECTION',
+      payload: server
+    }) as { success: boolean };
+    showStatus(response.success ? 'Server is reachable' : 'Could not reach the server', !response.success);
+  } catch (error) {
+    console.error('Failed to test connection:', error);
+    showStatus('Failed to test connection', true);
+  } finally {
+    testConnectionBtn.disabled = false;
+  }
+}
+
+function renderServer(): void {
+  const profile = getSelectedProfile();
+
+  profileSelect.innerHTML = settings.serverProfiles
+    .map(p => `<option value="${escapeHtml(p.id)}">${escapeHtml(p.name)}</option>`)
+    .join('');
+  profileSelect.value = profile.id;
+  deleteProfileBtn.disabled = settings.serverProfiles.length <= 1;
+
+  profileNameInput.value = profile.name;
+  serverUrlInput.value = profile.baseUrl;
+
+  oauthAuthorizeUrlInput.value = profile.oauth.authorizeUrl;
+  oauthTokenUrlInput.value = profile.oauth.tokenUrl;
+  oauthClientIdInput.value = profile.oauth.clientId;
+  oauthScopeInput.value = profile.oauth.scope;
+
+  for (const key of Object.keys(endpointInputs) as Array<keyof ApiEndpoints>) {
+    const defaultPath = DEFAULT_API_ENDPOINTS[key];
+    const path = profile.endpoints[key];
+    endpointInputs[key].placeholder = defaultPath;
+    endpointInputs[key].value = path === defaultPath ? '' : path;
+  }
+}
+
+async function loadDeviceInfo(): Promise<void> {
+  try {
+    const device = await browser.runtime.sendMessage({ type: 'GET_DEVICE_INFO' }) as DeviceInfo;
+    renderDeviceInfo(device);
+  } catch (error) {
+    console.error('Failed to load device info:', error);
+  }
+}
+
+async function saveDeviceLabel(): Promise<void> {
+  try {
+    const device = await browser.runtime.sendMessage({
+      type: 'UPDATE_DEVICE_LABEL',
+      payload: deviceLabelInput.value
+    }) as DeviceInfo;
+    renderDeviceInfo(device);
+    showStatus('Device label saved');
+  } catch (error) {
+    console.error('Failed to save device label:', error);
+    showStatus('Failed to save device label', true);
+  }
+}
+
+function renderDeviceInfo(device: DeviceInfo): void {
+  deviceLabelInput.value = device.deviceLabel;
+  deviceDetails.textContent = `${device.browserName} ${device.browserVersion} · ` +
+    `extension ${device.extensionVersion} · id ${device.deviceId}`;
+}
+
+async function loadHistoryUsage(): Promise<void> {
+  try {
+    const usage = await browser.runtime.sendMessage({ type: 'GET_HISTORY_USAGE' }) as HistoryUsage;
+    const usedKb = Math.round(usage.bytes / 1024);
+    const maxKb = Math.round(usage.maxBytes / 1024);
+    historyUsage.textContent = usage.days > 0
+      ? `${usage.days} day(s) stored since ${usage.oldestDate} · ${usedKb} KB of ${maxKb} KB`
+      : 'No history stored yet';
+  } catch (error) {
+    console.error('Failed to load history usage:', error);
+  }
+}
+
+async function updateRetentionDays(): Promise<void> {
+  const days = Number(retentionDaysInput.value);
+
+  if (!Number.isInteger(days) || days < HISTORY_RETENTION_MIN_DAYS || days > HISTORY_RETENTION_MAX_DAYS) {
+    showStatus(`Enter a number of days between ${HISTORY_RETENTION_MIN_DAYS} and ${HISTORY_RETENTION_MAX_DAYS}`, true);
+    retentionDaysInput.value = String(settings.historyRetentionDays);
+    return;
+  }
+
+  settings.historyRetentionDays = days;
+  await saveSettings();
+  await loadHistoryUsage();
+}
+
+function downloadFile(filename: string, content: string, type: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  // Firefox needs the URL until the download has started
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+async function exportJson(): Promise<void> {
+  try {
+    const data = await browser.runtime.sendMessage({ type: 'EXPORT_DATA' }) as ExportData;
+    downloadFile(`timeorganizer-backup-${getTodayDateString()}.json`, JSON.stringify(data, null, 2), 'application/json');
+    showStatus('Backup exported');
+  } catch (error) {
+    console.error('Failed to export data:', error);
+    showStatus('Failed to export data', true);
+  }
+}
+
+function toCsvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+async function exportCsv(): Promise<void> {
+  try {
+    const days = await browser.runtime.sendMessage({
+      type: 'GET_HISTORY',
+      payload: { from: '0000-01-01', to: '9999-12-31' }
+    }) as HistoryDay[];
+
+    const rows = [['date', 'domain', 'category', 'active_seconds', 'background_seconds', 'visits']];
+    for (const day of days) {
+      const stats = Object.values(day.domainStats)
+        .sort((a, b) => (b.activeTime + b.backgroundTime) - (a.activeTime + a.backgroundTime));
+      for (const stat of stats) {
+        rows.push([
+          day.date,
+          stat.domain,
+          stat.category ?? '',
+          String(Math.round(stat.activeTime / 1000)),
+          String(Math.round(stat.backgroundTime / 1000)),
+          String(stat.visits)
+        ]);
+      }
+    }
+
+    const csv = rows.map(row => row.map(toCsvField).join(',')).join('\n') + '\n';
+    downloadFile(`timeorganizer-daily-${getTodayDateString()}.csv`, csv, 'text/csv');
+    showStatus('CSV exported');
+  } catch (error) {
+    console.error('Failed to export CSV:', error);
+    showStatus('Failed to export CSV', true);
+  }
+}
+
+async function readImportFile(): Promise<void> {
+  const file = importFileInput.files?.[0];
+  importFileInput.value = '';
+  if (!file) return;
+
+  try {
+    pendingImport = parseExportData(JSON.parse(await file.text()));
+    renderImportPreview(pendingImport);
+  } catch (error) {
+    console.error('Failed to read backup:', error);
+    cancelImport();
+    showStatus(error instanceof SyntaxError ? 'File is not valid JSON' : (error as Error).message, true);
+  }
+}
+
+function renderImportPreview(data: ExportData): void {
+  const days = data.history;
+  const windows = days.reduce((sum, day) => sum + day.windows.length, 0);
+  const queued = Object.values(data.outboxes).reduce((sum, outbox) => sum + outbox.length, 0);
+  const exportedAt = data.exportedAt ? new Date(data.exportedAt).toLocaleString() : 'unknown';
+
+  const lines = [
+    `Exported ${exportedAt}`,
+    days.length > 0
+      ? `${days.length} day(s) of history from ${days[0].date} to ${days[days.length - 1].date}, ${windows} window(s)`
+      : 'No history',
+    `${queued} heartbeat(s) waiting for upload`,
+    `${data.settings.blocklist.length} blocked, ${data.settings.allowlist.length} allowed and ` +
+      `${data.settings.trackFullUrlDomains.length} full URL site(s), ${data.settings.categoryRules.length} category rule(s)`,
+    `Server profiles: ${data.settings.serverProfiles.map(p => p.name).join(', ')}`
+  ];
+
+  // History is pruned to the retention period in effect after the import
+  const retention = getImportMode() === 'replace' ? data.settings : settings;
+  const oldestKept = shiftDateString(
+    getTodayDateString(retention.dayStartHour),
+    -(retention.historyRetentionDays - 1)
+  );
+  const expired = days.filter(day => day.date < oldestKept).length;
+  if (expired > 0) {
+    lines.push(`${expired} day(s) are older than the ${retention.historyRetentionDays} day retention period and won't be kept`);
+  }
+
+  importSummary.innerHTML = lines.map(line => `<li>${escapeHtml(line)}</li>`).join('');
+  importPreview.classList.remove('hidden');
+}
+
+function getImportMode(): ImportMode {
+  const checked = document.querySelector<HTMLInputElement>('input[name="import-mode"]:checked');
+  return checked?.value === 'replace' ? 'replace' : 'merge';
+}
+
+function cancelImport(): void {
+  pendingImport = null;
+  importPreview.classList.add('hidden');
+}
+
+async function confirmImport(): Promise<void> {
+  if (!pendingImport) return;
+
+  // Imported server profiles need host permission like ones added by hand
+  const origins = pendingImport.settings.serverProfiles.flatMap(profile => [
+    getServerOriginPattern(profile.baseUrl),
+    ...(profile.oauth.tokenUrl ? [getServerOriginPattern(profile.oauth.tokenUrl)] : [])
+  ]);
+  try {
+    if (!await browser.permissions.request({ origins })) {
+      showStatus('Permission to access the imported servers was denied', true);
+      return;
+    }
+  } catch (error) {
+    console.error('Failed to request server permission:', error);
+    showStatus('Failed to request server permission', true);
+    return;
+  }
+
+  confirmImportBtn.disabled = true;
+  try {
+    const result = await browser.runtime.sendMessage({
+      type: 'IMPORT_DATA',
+      payload: { data: pendingImport, mode: getImportMode() }
+    }) as ImportResult;
+
+    if (!result.success) {
+      showStatus(result.error || 'Import failed', true);
+      return;
+    }
+
+    cancelImport();
+    await loadSettings();
+    await loadHistoryUsage();
+    const kept = result.keptProfiles.length > 0
+      ? `, kept server profile(s) with pending data: ${result.keptProfiles.join(', ')}`
+      : '';
+    showStatus(`Imported ${result.importedDays} day(s) and ${result.queuedHeartbeats} queued heartbeat(s)${kept}`);
+  } catch (error) {
+    console.error('Failed to import data:', error);
+    showStatus('Failed to import data', true);
+  } finally {
+    confirmImportBtn.disabled = false;
+  }
+}
+
 function showStatus(message: string, isError: boolean = false): void {
   saveStatus.textContent = message;
   saveStatus.className = 'save-status' + (isError ? ' error' : '');
@@ -72,6 +567,25 @@ function normalizeDomain(input: string): string {
   return domain;
 }
 
+/**
+ * Tidy up a blocklist or allowlist entry: lowercase the host and drop protocol, port, www.
+ * and trailing slashes. Regular expressions are kept as entered.
+ */
+function normalizeUrlPattern(input: string): string {
+  const pattern = input.trim();
+  if (pattern.startsWith('/')) return pattern;
+
+  const withoutProtocol = pattern.replace(/^https?:\/\//i, '');
+  const slash = withoutProtocol.indexOf('/');
+  const host = (slash === -1 ? withoutProtocol : withoutProtocol.slice(0, slash))
+    .toLowerCase()
+    .split(':')[0]
+    .replace(/^www\./, '');
+  const path = slash === -1 ? '' : withoutProtocol.slice(slash).replace(/\/+$/, '');
+
+  return host + path;
+}
+
 function isValidDomain(domain: string): boolean {
   if (!domain) return false;
 
@@ -81,13 +595,57 @@ function isValidDomain(domain: string): boolean {
 }
 
 function renderLists(): void {
+  renderServer();
   renderBlocklist();
+  renderAllowlist();
   renderFullUrlList();
+  renderCategoryRules();
+  renderRedaction();
+  renderTrackingSettings();
+  retentionDaysInput.value = String(settings.historyRetentionDays);
+  dayStartHourSelect.value = String(settings.dayStartHour);
+}
+
+function renderTrackingSettings(): void {
+  debounceSecondsInput.value = String(settings.debounceSeconds);
+  idleThresholdSecondsInput.value = String(settings.idleThresholdSeconds);
+  heartbeatSecondsInput.value = String(settings.heartbeatSeconds);
+  windowMinutesSelect.value = String(settings.windowMinutes);
+  incognitoPolicySelect.value = settings.incognitoPolicy;
+  badgeSiteTimeCheckbox.checked = settings.badgeShowsSiteTime;
+}
+
+function populateWindowMinutes(): void {
+  windowMinutesSelect.innerHTML = WINDOW_MINUTES_OPTIONS
+    .map(minutes => `<option value="${minutes}">${minutes}</option>`)
+    .join('');
+}
+
+type NumericSettingKey = 'debounceSeconds' | 'idleThresholdSeconds' | 'heartbeatSeconds';
+
+function updateNumericSetting(input: HTMLInputElement, key: NumericSettingKey, min: number, max: number): void {
+  const value = Number(input.value);
+
+  if (!Number.isInteger(value) || value < min || value > max) {
+    showStatus(`Enter a whole number between ${min} and ${max}`, true);
+    input.value = String(settings[key]);
+    return;
+  }
+
+  settings[key] = value;
+  saveSettings();
+}
+
+function populateDayStartHours(): void {
+  dayStartHourSelect.innerHTML = Array.from({ length: 24 }, (_, hour) => {
+    const label = `${String(hour).padStart(2, '0')}:00${hour === 0 ? ' (midnight)' : ''}`;
+    return `<option value="${hour}">${label}</option>`;
+  }).join('');
 }
 
 function renderBlocklist(): void {
   if (settings.blocklist.length === 0) {
-    blocklistEl.innerHTML = '<li class="empty-state">No blocked domains</li>';
+    blocklistEl.innerHTML = '<li class="empty-state">No blocked sites</li>';
     return;
   }
 
@@ -106,6 +664,29 @@ function renderBlocklist(): void {
   });
 }
 
+function renderAllowlist(): void {
+  allowlistModeCheckbox.checked = settings.trackingMode === 'allowlist';
+
+  if (settings.allowlist.length === 0) {
+    allowlistEl.innerHTML = '<li class="empty-state">No allowed sites</li>';
+    return;
+  }
+
+  allowlistEl.innerHTML = settings.allowlist
+    .map(pattern => createDomainListItem(pattern, 'allowlist'))
+    .join('');
+
+  // Add event listeners to remove buttons
+  allowlistEl.querySelectorAll('.btn-danger').forEach(btn => {
+    btn.addEventListener('click', function(this: HTMLButtonElement) {
+      const pattern = this.dataset.domain;
+      if (pattern) {
+        removeFromAllowlist(pattern);
+      }
+    });
+  });
+}
+
 function renderFullUrlList(): void {
   if (settings.trackFullUrlDomains.length === 0) {
     fullurlList.innerHTML = '<li class="empty-state">No domains configured</li>';
@@ -127,6 +708,64 @@ function renderFullUrlList(): void {
   });
 }
 
+function populateCategories(): void {
+  categorySelect.innerHTML = CATEGORIES
+    .map(category => `<option value="${category}">${CATEGORY_LABELS[category]}</option>`)
+    .join('');
+}
+
+function renderCategoryRules(): void {
+  if (settings.categoryRules.length === 0) {
+    categoryRuleList.innerHTML = '<li class="empty-state">No custom rules</li>';
+    return;
+  }
+
+  categoryRuleList.innerHTML = settings.categoryRules
+    .map(rule => `
+      <li>
+        <span class="domain-name">${escapeHtml(rule.pattern)} &rarr; ${CATEGORY_LABELS[rule.category]}</span>
+        <button class="btn btn-danger" data-domain="${escapeHtml(rule.pattern)}" data-list="category">
+          Remove
+        </button>
+      </li>
+    `)
+    .join('');
+
+  // Add event listeners to remove buttons
+  categoryRuleList.querySelectorAll('.btn-danger').forEach(btn => {
+    btn.addEventListener('click', function(this: HTMLButtonElement) {
+      const pattern = this.dataset.domain;
+      if (pattern) {
+        removeCategoryRule(pattern);
+      }
+    });
+  });
+}
+
+function renderRedaction(): void {
+  stripQueryCheckbox.checked = settings.urlRedaction.stripQuery;
+  stripFragmentCheckbox.checked = settings.urlRedaction.stripFragment;
+
+  if (settings.urlRedaction.maskPathPatterns.length === 0) {
+    maskPatternList.innerHTML = '<li class="empty-state">No patterns configured</li>';
+    return;
+  }
+
+  maskPatternList.innerHTML = settings.urlRedaction.maskPathPatterns
+    .map(pattern => createDomainListItem(pattern, 'mask-pattern'))
+    .join('');
+
+  // Add event listeners to remove buttons
+  maskPatternList.querySelectorAll('.btn-danger').forEach(btn => {
+    btn.addEventListener('click', function(this: HTMLButtonElement) {
+      const pattern = this.dataset.domain;
+      if (pattern) {
+        removeMaskPattern(pattern);
+      }
+    });
+  });
+}
+
 function createDomainListItem(domain: string, listType: string): string {
   return `
     <li>
@@ -144,16 +783,16 @@ function escapeHtml(text: string): string {
   return div.innerHTML;
 }
 
-function addToBlocklist(domain: string): void {
-  const normalized = normalizeDomain(domain);
+function addToBlocklist(input: string): void {
+  const normalized = normalizeUrlPattern(input);
 
-  if (!isValidDomain(normalized)) {
-    showStatus('Please enter a valid domain', true);
+  if (!isValidUrlPattern(normalized)) {
+    showStatus('Please enter a valid site or pattern', true);
     return;
   }
 
   if (settings.blocklist.includes(normalized)) {
-    showStatus('Domain already in blocklist', true);
+    showStatus('Already in blocklist', true);
     return;
   }
 
@@ -169,6 +808,31 @@ function removeFromBlocklist(domain: string): void {
   renderBlocklist();
 }
 
+function addToAllowlist(input: string): void {
+  const normalized = normalizeUrlPattern(input);
+
+  if (!isValidUrlPattern(normalized)) {
+    showStatus('Please enter a valid site or pattern', true);
+    return;
+  }
+
+  if (settings.allowlist.includes(normalized)) {
+    showStatus('Already in allowlist', true);
+    return;
+  }
+
+  settings.allowlist.push(normalized);
+  saveSettings();
+  renderAllowlist();
+  allowlistInput.value = '';
+}
+
+function removeFromAllowlist(pattern: string): void {
+  settings.allowlist = settings.allowlist.filter(p => p !== pattern);
+  saveSettings();
+  renderAllowlist();
+}
+
 function addToFullUrlList(domain: string): void {
   const normalized = normalizeDomain(domain);
 
@@ -194,7 +858,92 @@ function removeFromFullUrlList(domain: string): void {
   renderFullUrlList();
 }
 
+function addCategoryRule(input: string, category: Category): void {
+  // Keep wildcards, but strip protocol, path and www. like for plain domains
+  const pattern = normalizeDomain(input);
+
+  if (!isValidDomainPattern(pattern)) {
+    showStatus('Please enter a valid domain or pattern', true);
+    return;
+  }
+
+  // Re-adding a pattern changes its category, keeping its place in the order
+  const existing = settings.categoryRules.find(rule => rule.pattern === pattern);
+  if (existing) {
+    existing.category = category;
+  } else {
+    settings.categoryRules.push({ pattern, category });
+  }
+  saveSettings();
+  renderCategoryRules();
+  categoryPatternInput.value = '';
+}
+
+function removeCategoryRule(pattern: string): void {
+  settings.categoryRules = settings.categoryRules.filter(rule => rule.pattern !== pattern);
+  saveSettings();
+  renderCategoryRules();
+}
+
+function addMaskPattern(input: string): void {
+  const pattern = input.trim();
+
+  if (!pattern || !isValidPattern(pattern)) {
+    showStatus('Please enter a valid regular expression', true);
+    return;
+  }
+
+  if (settings.urlRedaction.maskPathPatterns.includes(pattern)) {
+    showStatus('Pattern already in list', true);
+    return;
+  }
+
+  settings.urlRedaction.maskPathPatterns.push(pattern);
+  saveSettings();
+  renderRedaction();
+  maskPatternInput.value = '';
+}
+
+function removeMaskPattern(pattern: string): void {
+  settings.urlRedaction.maskPathPatterns = settings.urlRedaction.maskPathPatterns.filter(p => p !== pattern);
+  saveSettings();
+  renderRedaction();
+}
+
 function setupEventListeners(): void {
+  // Server profiles
+  profileSelect.addEventListener('change', () => {
+    selectedProfileId = profileSelect.value;
+    renderServer();
+  });
+
+  addProfileBtn.addEventListener('click', () => {
+    addProfile();
+  });
+
+  deleteProfileBtn.addEventListener('click', () => {
+    deleteProfile();
+  });
+
+  saveServerBtn.addEventListener('click', () => {
+    saveServer();
+  });
+
+  testConnectionBtn.addEventListener('click', () => {
+    testConnection();
+  });
+
+  // Device label
+  saveDeviceLabelBtn.addEventListener('click', () => {
+    saveDeviceLabel();
+  });
+
+  deviceLabelInput.addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') {
+      saveDeviceLabel();
+    }
+  });
+
   // Blocklist
   addBlocklistBtn.addEventListener('click', () => {
     addToBlocklist(blocklistInput.value);
@@ -206,6 +955,22 @@ function setupEventListeners(): void {
     }
   });
 
+  // Allowlist
+  allowlistModeCheckbox.addEventListener('change', () => {
+    settings.trackingMode = allowlistModeCheckbox.checked ? 'allowlist' : 'blocklist';
+    saveSettings();
+  });
+
+  addAllowlistBtn.addEventListener('click', () => {
+    addToAllowlist(allowlistInput.value);
+  });
+
+  allowlistInput.addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') {
+      addToAllowlist(allowlistInput.value);
+    }
+  });
+
   // Full URL list
   addFullurlBtn.addEventListener('click', () => {
     addToFullUrlList(fullurlInput.value);
@@ -216,10 +981,119 @@ function setupEventListeners(): void {
       addToFullUrlList(fullurlInput.value);
     }
   });
+
+  // Categories
+  addCategoryRuleBtn.addEventListener('click', () => {
+    addCategoryRule(categoryPatternInput.value, categorySelect.value as Category);
+  });
+
+  categoryPatternInput.addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') {
+      addCategoryRule(categoryPatternInput.value, categorySelect.value as Category);
+    }
+  });
+
+  // Tracking
+  debounceSecondsInput.addEventListener('change', () => {
+    updateNumericSetting(debounceSecondsInput, 'debounceSeconds', DEBOUNCE_MIN_SECONDS, DEBOUNCE_MAX_SECONDS);
+  });
+
+  idleThresholdSecondsInput.addEventListener('change', () => {
+    updateNumericSetting(idleThresholdSecondsInput, 'idleThresholdSeconds', IDLE_MIN_SECONDS, IDLE_MAX_SECONDS);
+  });
+
+  heartbeatSecondsInput.addEventListener('change', () => {
+    updateNumericSetting(heartbeatSecondsInput, 'heartbeatSeconds', HEARTBEAT_MIN_SECONDS, HEARTBEAT_MAX_SECONDS);
+  });
+
+  windowMinutesSelect.addEventListener('change', () => {
+    settings.windowMinutes = Number(windowMinutesSelect.value);
+    saveSettings();
+  });
+
+  incognitoPolicySelect.addEventListener('change', () => {
+    settings.incognitoPolicy = incognitoPolicySelect.value as IncognitoPolicy;
+    saveSettings();
+  });
+
+  badgeSiteTimeCheckbox.addEventListener('change', () => {
+    settings.badgeShowsSiteTime = badgeSiteTimeCheckbox.checked;
+    saveSettings();
+  });
+
+  // Local history
+  retentionDaysInput.addEventListener('change', () => {
+    updateRetentionDays();
+  });
+
+  dayStartHourSelect.addEventListener('change', () => {
+    settings.dayStartHour = Number(dayStartHourSelect.value);
+    saveSettings();
+  });
+
+  // Backup
+  exportJsonBtn.addEventListener('click', () => {
+    exportJson();
+  });
+
+  exportCsvBtn.addEventListener('click', () => {
+    exportCsv();
+  });
+
+  importJsonBtn.addEventListener('click', () => {
+    importFileInput.click();
+  });
+
+  importFileInput.addEventListener('change', () => {
+    readImportFile();
+  });
+
+  document.querySelectorAll<HTMLInputElement>('input[name="import-mode"]').forEach(radio => {
+    radio.addEventListener('change', () => {
+      if (pendingImport) {
+        renderImportPreview(pendingImport);
+      }
+    });
+  });
+
+  confirmImportBtn.addEventListener('click', () => {
+    confirmImport();
+  });
+
+  cancelImportBtn.addEventListener('click', () => {
+    cancelImport();
+  });
+
+  // URL redaction
+  stripQueryCheckbox.addEventListener('change', () => {
+    settings.urlRedaction.stripQuery = stripQueryCheckbox.checked;
+    saveSettings();
+  });
+
+  stripFragmentCheckbox.addEventListener('change', () => {
+    settings.urlRedaction.stripFragment = stripFragmentCheckbox.checked;
+    saveSettings();
+  });
+
+  addMaskPatternBtn.addEventListener('click', () => {
+    addMaskPattern(maskPatternInput.value);
+  });
+
+  maskPatternInput.addEventListener('keypress', (e) => {
+    if (e.key === 'Enter') {
+      addMaskPattern(maskPatternInput.value);
+    }
+  });
 }
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
+  oauthRedirectUrl.textContent = browser.identity.getRedirectURL();
+  populateWindowMinutes();
+  populateDayStartHours();
+  populateCategories();
   loadSettings();
+  loadDeviceInfo();
+  loadHistoryUsage();
   setupEventListeners();
 });
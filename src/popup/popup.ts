@@ -1,18 +1,44 @@
 import browser from 'webextension-polyfill';
-import type { StatsResponse, DomainStat, AuthState } from '@shared/types';
+import type {
+  StatsResponse,
+  Category,
+  DomainStat,
+  AuthState,
+  DeviceInfo,
+  PairingState,
+  PauseDuration,
+  ServerProfilesResponse
+} from '@shared/types';
+import { CATEGORIES, CATEGORY_LABELS } from '@shared/config';
 import { formatDuration } from '@shared/utils';
 
 // DOM Elements - Header
 const statusIndicator = document.getElementById('status-indicator') as HTMLElement;
 const statusText = document.getElementById('status-text') as HTMLElement;
 
+// DOM Elements - Profile Switcher
+const profileBar = document.getElementById('profile-bar') as HTMLElement;
+const profileSelect = document.getElementById('profile-select') as HTMLSelectElement;
+
 // DOM Elements - Login View
 const loginView = document.getElementById('login-view') as HTMLElement;
+const sessionExpiredNotice = document.getElementById('session-expired-notice') as HTMLElement;
 const loginForm = document.getElementById('login-form') as HTMLFormElement;
 const emailInput = document.getElementById('email') as HTMLInputElement;
 const passwordInput = document.getElementById('password') as HTMLInputElement;
 const loginError = document.getElementById('login-error') as HTMLElement;
 const loginBtn = document.getElementById('login-btn') as HTMLButtonElement;
+const loginOptions = document.getElementById('login-options') as HTMLElement;
+const ssoLogin = document.getElementById('sso-login') as HTMLElement;
+const ssoLoginBtn = document.getElementById('sso-login-btn') as HTMLButtonElement;
+
+// DOM Elements - Pairing
+const pairingBtn = document.getElementById('pairing-btn') as HTMLButtonElement;
+const pairingPanel = document.getElementById('pairing-panel') as HTMLElement;
+const pairingUrl = document.getElementById('pairing-url') as HTMLAnchorElement;
+const pairingCode = document.getElementById('pairing-code') as HTMLElement;
+const pairingStatus = document.getElementById('pairing-status') as HTMLElement;
+const pairingCancelBtn = document.getElementById('pairing-cancel-btn') as HTMLButtonElement;
 
 // DOM Elements - Success View
 const successView = document.getElementById('success-view') as HTMLElement;
@@ -27,15 +53,24 @@ const windowStatus = document.getElementById('window-status') as HTMLElement;
 const windowPreview = document.getElementById('window-preview') as HTMLElement;
 const activeTime = document.getElementById('active-time') as HTMLElement;
 const backgroundTime = document.getElementById('background-time') as HTMLElement;
+const pendingUploads = document.getElementById('pending-uploads') as HTMLElement;
+const categoryList = document.getElementById('category-list') as HTMLElement;
 const domainList = document.getElementById('domain-list') as HTMLElement;
 const toggleBtn = document.getElementById('toggle-btn') as HTMLButtonElement;
 const toggleIcon = document.getElementById('toggle-icon') as HTMLElement;
 const toggleText = document.getElementById('toggle-text') as HTMLElement;
+const pauseMenu = document.getElementById('pause-menu') as HTMLElement;
+const pauseMenuButtons = pauseMenu.querySelectorAll<HTMLButtonElement>('button');
+const pauseCountdown = document.getElementById('pause-countdown') as HTMLElement;
+const historyBtn = document.getElementById('history-btn') as HTMLButtonElement;
 const optionsBtn = document.getElementById('options-btn') as HTMLButtonElement;
 const userEmail = document.getElementById('user-email') as HTMLElement;
+const deviceLabel = document.getElementById('device-label') as HTMLElement;
 const logoutBtn = document.getElementById('logout-btn') as HTMLButtonElement;
 
 let updateInterval: ReturnType<typeof setInterval> | null = null;
+let pairingInterval: ReturnType<typeof setInterval> | null = null;
+let isPaused = false;
 let isLoggingIn = false;
 
 async function getAuthState(): Promise<AuthState | null> {
@@ -48,6 +83,26 @@ async function getAuthState(): Promise<AuthState | null> {
   }
 }
 
+async function getDeviceInfo(): Promise<DeviceInfo | null> {
+  try {
+    const response = await browser.runtime.sendMessage({ type: 'GET_DEVICE_INFO' });
+    return response as DeviceInfo;
+  } catch (error) {
+    console.error('Failed to get device info:', error);
+    return null;
+  }
+}
+
+async function getServerProfiles(): Promise<ServerProfilesResponse | null> {
+  try {
+    const response = await browser.runtime.sendMessage({ type: 'GET_SERVER_PROFILES' });
+    return response as ServerProfilesResponse;
+  } catch (error) {
+    console.error('Failed to get server profiles:', error);
+    return null;
+  }
+}
+
 async function fetchStats(): Promise<StatsResponse | null> {
   try {
     const response = await browser.runtime.sendMessage({ type: 'GET_STATS' });
@@ -58,19 +113,36 @@ async function fetchStats(): Promise<StatsResponse | null> {
   }
 }
 
-function showLoginView(): void {
+function showLoginView(authState?: AuthState | null): void {
   loginView.classList.remove('hidden');
   mainView.classList.add('hidden');
   successView.classList.add('hidden');
   statusIndicator.className = 'status-indicator unauthenticated';
-  statusText.textContent = 'Not signed in';
+
+  // Activity is still recorded after the server ended the session; signing in again uploads it
+  const sessionExpired = authState?.sessionExpired === true;
+  sessionExpiredNotice.classList.toggle('hidden', !sessionExpired);
+  statusText.textContent = sessionExpired ? 'Session expired' : 'Not signed in';
+
+  if (sessionExpired) {
+    sessionExpiredNotice.textContent = `Your session${authState?.userEmail ? ` as ${authState.userEmail}` : ''} expired. ` +
+      'Sign in again to upload the activity recorded since then.';
+    if (authState?.userEmail) {
+      emailInput.value = authState.userEmail;
+    }
+  }
 }
 
 function showMainView(authState: AuthState): void {
   loginView.classList.add('hidden');
   mainView.classList.remove('hidden');
   successView.classList.add('hidden');
-  userEmail.textContent = authState.userEmail || '';
+  // Only single sign-on providers may not name the user
+  userEmail.textContent = authState.userEmail || 'Single sign-on user';
+
+  getDeviceInfo().then(function(device) {
+    deviceLabel.textContent = device?.deviceLabel || '';
+  });
 }
 
 function showSuccessView(): void {
@@ -81,6 +153,54 @@ function showSuccessView(): void {
   statusText.textContent = 'Authenticated';
 }
 
+async function loadServerProfiles(): Promise<void> {
+  const response = await getServerProfiles();
+
+  // Offer single sign-on if the active profile has it configured
+  const activeProfile = response?.profiles.find(p => p.id === response.activeProfileId);
+  ssoLogin.classList.toggle('hidden', !activeProfile?.ssoEnabled);
+
+  // Nothing to switch between with a single profile
+  if (!response || response.profiles.length <= 1) {
+    profileBar.classList.add('hidden');
+    return;
+  }
+
+  profileSelect.innerHTML = response.profiles
+    .map(function(profile) {
+      return `<option value="${escapeHtml(profile.id)}" title="${escapeHtml(profile.baseUrl)}">${escapeHtml(profile.name)}</option>`;
+    })
+    .join('');
+  profileSelect.value = response.activeProfileId;
+  profileBar.classList.remove('hidden');
+}
+
+async function switchProfile(): Promise<void> {
+  profileSelect.disabled = true;
+
+  try {
+    await browser.runtime.sendMessage({
+      type: 'SWITCH_SERVER_PROFILE',
+      payload: profileSelect.value
+    });
+
+    // Each profile has its own sign-in
+    const authState = await getAuthState();
+    if (authState?.isAuthenticated) {
+      showMainView(authState);
+      startStatsUpdates();
+    } else {
+      stopStatsUpdates();
+      showLoginView(authState);
+    }
+  } catch (error) {
+    console.error('Failed to switch server profile:', error);
+  } finally {
+    profileSelect.disabled = false;
+    await loadServerProfiles();
+  }
+}
+
 function updateStatsUI(stats: StatsResponse): void {
   // Update status
   statusIndicator.className = 'status-indicator ' + stats.status;
@@ -144,11 +264,21 @@ function updateStatsUI(stats: StatsResponse): void {
   activeTime.textContent = formatDuration(stats.todayStats.totalActiveTime);
   backgroundTime.textContent = formatDuration(stats.todayStats.totalBackgroundTime);
 
-  // Update top domains
+  // Update offline queue info
+  if (stats.pendingHeartbeats > 0) {
+    pendingUploads.textContent = `${stats.pendingHeartbeats} heartbeat(s) waiting to upload`;
+    pendingUploads.classList.remove('hidden');
+  } else {
+    pendingUploads.classList.add('hidden');
+  }
+
+  // Update categories and top domains
+  updateCategoryList(stats.todayStats.domainStats);
   updateDomainList(stats.todayStats.domainStats);
 
   // Update toggle button
-  if (stats.status === 'paused') {
+  isPaused = stats.status === 'paused';
+  if (isPaused) {
     toggleBtn.classList.add('paused');
     toggleIcon.textContent = '▶';
     toggleText.textContent = 'Resume';
@@ -157,6 +287,46 @@ function updateStatsUI(stats: StatsResponse): void {
     toggleIcon.textContent = '⏸';
     toggleText.textContent = 'Pause';
   }
+
+  // Countdown of a timed pause
+  if (isPaused && stats.resumeAt) {
+    const resumeTime = new Date(stats.resumeAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+    pauseCountdown.textContent = `Tracking resumes in ${formatDuration(stats.resumeAt - Date.now())} (at ${resumeTime})`;
+    pauseCountdown.classList.remove('hidden');
+  } else {
+    pauseCountdown.classList.add('hidden');
+  }
+}
+
+function updateCategoryList(domainStats: Record<string, DomainStat>): void {
+  const totals = new Map<Category, number>();
+  for (const stat of Object.values(domainStats)) {
+    const category = stat.category ?? 'other';
+    totals.set(category, (totals.get(category) ?? 0) + stat.activeTime + stat.backgroundTime);
+  }
+
+  if (totals.size === 0) {
+    categoryList.innerHTML = '<li class="empty-state">No activity recorded yet</li>';
+    return;
+  }
+
+  const overall = Array.from(totals.values()).reduce((sum, time) => sum + time, 0);
+
+  // Biggest first, ties in the usual category order
+  categoryList.innerHTML = CATEGORIES
+    .filter(category => totals.has(category))
+    .sort((a, b) => totals.get(b)! - totals.get(a)!)
+    .map(function(category) {
+      const time = totals.get(category)!;
+      const percent = overall > 0 ? Math.round(time / overall * 100) : 0;
+      return `
+        <li>
+          <span class="domain-name">${CATEGORY_LABELS[category]}</span>
+          <span class="domain-time">${formatDuration(time)} (${percent}%)</span>
+        </li>
+      `;
+    })
+    .join('');
 }
 
 function updateDomainList(domainStats: Record<string, DomainStat>): void {
@@ -242,6 +412,113 @@ async function handleLogin(event: Event): Promise<void> {
   }
 }
 
+async function handleSsoLogin(): Promise<void> {
+  if (isLoggingIn) return;
+
+  isLoggingIn = true;
+  ssoLoginBtn.disabled = true;
+  ssoLoginBtn.innerHTML = '<span class="spinner"></span> Waiting for sign in...';
+  hideLoginError();
+
+  // The sign-in window may take focus and close the popup; the background finishes the login regardless
+  try {
+    const response = await browser.runtime.sendMessage({ type: 'LOGIN_OAUTH' }) as { success: boolean; error?: string };
+
+    if (response.success) {
+      showSuccessView();
+
+      setTimeout(function() {
+        window.close();
+      }, 1500);
+    } else {
+      showLoginError(response.error || 'Single sign-on failed');
+    }
+  } catch (error) {
+    console.error('Single sign-on error:', error);
+    showLoginError('An error occurred. Please try again.');
+  } finally {
+    isLoggingIn = false;
+    ssoLoginBtn.disabled = false;
+    ssoLoginBtn.textContent = 'Sign in with SSO';
+  }
+}
+
+async function startPairing(): Promise<void> {
+  pairingBtn.disabled = true;
+  hideLoginError();
+
+  try {
+    const state = await browser.runtime.sendMessage({ type: 'START_PAIRING' }) as PairingState;
+    showPairingState(state);
+  } catch (error) {
+    console.error('Pairing error:', error);
+    showLoginError('An error occurred. Please try again.');
+  } finally {
+    pairingBtn.disabled = false;
+  }
+}
+
+async function cancelPairing(): Promise<void> {
+  try {
+    const state = await browser.runtime.sendMessage({ type: 'CANCEL_PAIRING' }) as PairingState | null;
+    showPairingState(state);
+  } catch (error) {
+    console.error('Failed to cancel pairing:', error);
+  }
+}
+
+async function refreshPairingState(): Promise<void> {
+  try {
+    const state = await browser.runtime.sendMessage({ type: 'GET_PAIRING_STATE' }) as PairingState | null;
+    showPairingState(state);
+  } catch (error) {
+    console.error('Failed to get pairing state:', error);
+  }
+}
+
+/**
+ * Show the code while it waits for approval, or go back to the login options with the outcome
+ */
+function showPairingState(state: PairingState | null): void {
+  if (state?.status === 'pending') {
+    loginOptions.classList.add('hidden');
+    pairingPanel.classList.remove('hidden');
+    pairingCode.textContent = state.userCode || '';
+    pairingUrl.textContent = state.verificationUrl || '';
+    pairingUrl.href = state.verificationUrl || '#';
+
+    const secondsLeft = Math.max(0, Math.round(((state.expiresAt || 0) - Date.now()) / 1000));
+    pairingStatus.innerHTML = `<span class="spinner"></span> Waiting for approval · expires in ${formatDuration(secondsLeft * 1000)}`;
+
+    if (!pairingInterval) {
+      pairingInterval = setInterval(refreshPairingState, 1000);
+    }
+    return;
+  }
+
+  stopPairingUpdates();
+  loginOptions.classList.remove('hidden');
+  pairingPanel.classList.add('hidden');
+
+  const messages: Partial<Record<PairingState['status'], string>> = {
+    expired: 'The pairing code expired. Please request a new one.',
+    denied: 'Pairing was declined in the web app.',
+    error: state?.error || 'Pairing failed, please try again.'
+  };
+  const message = state ? messages[state.status] : undefined;
+  if (message) {
+    showLoginError(message);
+  }
+  // Approval is picked up through AUTH_STATE_CHANGED
+}
+
+function stopPairingUpdates(): void {
+  if (pairingInterval) {
+    clearInterval(pairingInterval);
+    pairingInterval = null;
+  }
+}
+
 function showLoginError(message: string): void {
   loginError.textContent = message;
   loginError.classList.remove('hidden');
@@ -261,16 +538,42 @@ async function handleLogout(): Promise<void> {
   }
 }
 
+// Resume right away; pausing first asks for how long
 async function togglePause(): Promise<void> {
+  if (!isPaused) {
+    pauseMenu.classList.toggle('hidden');
+    return;
+  }
+
   try {
-    await browser.runtime.sendMessage({ type: 'TOGGLE_PAUSE' });
-    // Refresh stats
-    const stats = await fetchStats();
-    if (stats) {
-      updateStatsUI(stats);
-    }
+    await browser.runtime.sendMessage({ type: 'RESUME_TRACKING' });
+    await refreshStats();
   } catch (error) {
-    console.error('Failed to toggle pause:', error);
+    console.error('Failed to resume tracking:', error);
+  }
+}
+
+async function pauseTracking(duration: PauseDuration): Promise<void> {
+  pauseMenu.classList.add('hidden');
+
+  try {
+    await browser.runtime.sendMessage({ type: 'PAUSE_TRACKING', payload: duration });
+    await refreshStats();
+  } catch (error) {
+    console.error('Failed to pause tracking:', error);
+  }
+}
+
+function parsePauseDuration(value: string | undefined): PauseDuration {
+  if (!value) return null;
+  if (value === 'tomorrow') return 'tomorrow';
+  return Number(value);
+}
+
+async function refreshStats(): Promise<void> {
+  const stats = await fetchStats();
+  if (stats) {
+    updateStatsUI(stats);
   }
 }
 
@@ -278,6 +581,11 @@ function openOptions(): void {
   browser.runtime.openOptionsPage();
 }
 
+function openHistory(): void {
+  browser.tabs.create({ url: browser.runtime.getURL('src/dashboard/dashboard.html') });
+  window.close();
+}
+
 function startStatsUpdates(): void {
   // Stop any existing interval first to prevent duplicates
   stopStatsUpdates();
@@ -295,7 +603,7 @@ function startStatsUpdates(): void {
     if (stats) {
       if (stats.status === 'unauthenticated') {
         stopStatsUpdates();
-        showLoginView();
+        showLoginView(await getAuthState());
       } else {
         updateStatsUI(stats);
       }
@@ -311,6 +619,8 @@ function stopStatsUpdates(): void {
 }
 
 async function initialize(): Promise<void> {
+  loadServerProfiles();
+
   // Check auth state
   const authState = await getAuthState();
 
@@ -318,25 +628,38 @@ async function initialize(): Promise<void> {
     showMainView(authState);
     startStatsUpdates();
   } else {
-    showLoginView();
+    showLoginView(authState);
+    // Pairing keeps running in the background while the popup is closed
+    refreshPairingState();
   }
 
   // Set up event listeners
   loginForm.addEventListener('submit', handleLogin);
+  ssoLoginBtn.addEventListener('click', handleSsoLogin);
+  pairingBtn.addEventListener('click', startPairing);
+  pairingCancelBtn.addEventListener('click', cancelPairing);
   logoutBtn.addEventListener('click', handleLogout);
   toggleBtn.addEventListener('click', togglePause);
+  pauseMenuButtons.forEach(btn => {
+    btn.addEventListener('click', () => {
+      pauseTracking(parsePauseDuration(btn.dataset.duration));
+    });
+  });
+  historyBtn.addEventListener('click', openHistory);
   optionsBtn.addEventListener('click', openOptions);
+  profileSelect.addEventListener('change', switchProfile);
 
   // Listen for auth state changes
   browser.runtime.onMessage.addListener(function(message) {
     if (message.type === 'AUTH_STATE_CHANGED') {
       const state = message.payload as AuthState;
       if (state.isAuthenticated) {
+        showPairingState(null);
         showMainView(state);
         startStatsUpdates();
       } else {
         stopStatsUpdates();
-        showLoginView();
+        showLoginView(state);
       }
     }
   });
@@ -345,6 +668,7 @@ async function initialize(): Promise<void> {
 // Clean up interval when popup closes
 window.addEventListener('unload', function() {
   stopStatsUpdates();
+  stopPairingUpdates();
 });
 
 // Initialize on load
@@ -1,17 +1,169 @@
-// API Configuration - Set these values for your backend
+import type { ApiEndpoints, Category, CategoryRule, OAuthSettings, UserSettings } from './types';
+
+// API Configuration - Defaults for the backend, can be changed on the options page
 export const API_BASE_URL = 'https://localhost:8080/api';
 export const API_ACTIVITY_ENDPOINT = '/activity-tracking/web-extension/heartbeat';
+export const API_ACTIVITY_BATCH_ENDPOINT = '/activity-tracking/web-extension/heartbeat/batch';
 export const API_LOGIN_ENDPOINT = '/auth/extension/login';
 export const API_REFRESH_ENDPOINT = '/auth/extension/refresh';
 export const API_LOGOUT_ENDPOINT = '/auth/extension/logout';
+export const API_PAIRING_ENDPOINT = '/auth/extension/pairing';
+export const API_PAIRING_TOKEN_ENDPOINT = '/auth/extension/pairing/token';
+
+export const DEFAULT_API_ENDPOINTS: ApiEndpoints = {
+  activity: API_ACTIVITY_ENDPOINT,
+  activityBatch: API_ACTIVITY_BATCH_ENDPOINT,
+  login: API_LOGIN_ENDPOINT,
+  refresh: API_REFRESH_ENDPOINT,
+  logout: API_LOGOUT_ENDPOINT,
+  pairing: API_PAIRING_ENDPOINT,
+  pairingToken: API_PAIRING_TOKEN_ENDPOINT
+};
+export const DEFAULT_SERVER_PROFILE_ID = 'default';
+export const DEFAULT_OAUTH_SETTINGS: OAuthSettings = {
+  authorizeUrl: '',
+  tokenUrl: '',
+  clientId: '',
+  scope: 'openid email offline_access'
+};
+
+// Pairing Configuration
+export const PAIRING_DEFAULT_INTERVAL_SECONDS = 5; // Poll interval if the server doesn't name one
+export const PAIRING_SLOW_DOWN_SECONDS = 5; // Added to the interval when the server asks to slow down
+
+// Tracking Configuration - defaults live in DEFAULT_SETTINGS, these are the allowed ranges
+export const DEBOUNCE_MIN_SECONDS = 0;
+export const DEBOUNCE_MAX_SECONDS = 60;
+export const HEARTBEAT_MIN_SECONDS = 30; // Browsers don't fire alarms more often than every 30 seconds
+export const HEARTBEAT_MAX_SECONDS = 600;
+export const IDLE_MIN_SECONDS = 15; // Lowest interval browser.idle accepts
+export const IDLE_MAX_SECONDS = 3600;
+export const WINDOW_MINUTES_OPTIONS = [1, 2, 5, 10, 15, 30, 60]; // Divisors of an hour, so windows align with hours
+
+// Offline Queue Configuration
+export const OUTBOX_MAX_ENTRIES = 2016; // One week of 5-minute windows
+export const OUTBOX_MAX_AGE_MS = 7 * 24 * 60 * 60 * 1000; // Drop heartbeats older than 7 days
+export const RETRY_BASE_DELAY_MS = 30000; // First retry after 30 seconds
+export const RETRY_MAX_DELAY_MS = 30 * 60 * 1000; // Back off to at most 30 minutes
+export const HEARTBEAT_BATCH_MAX_WINDOWS = 50; // Windows per batch request
+
+// Local History Configuration
+export const HISTORY_RETENTION_MIN_DAYS = 1;
+export const HISTORY_RETENTION_MAX_DAYS = 365;
+export const HISTORY_MAX_BYTES = 5 * 1024 * 1024; // Leave room in storage.local for everything else
+
+// Version of the data layout in storage.local and of the synced settings, see src/background/migrations.ts
+export const STORAGE_SCHEMA_VERSION = 1;
+
+// Backup files - bump the version when the file layout changes, older versions stay importable
+export const EXPORT_FORMAT = 'timeorganizer-backup';
+export const EXPORT_VERSION = 1;
+
+// Categories in display order; domains without a matching rule count as 'other'
+export const CATEGORIES: Category[] = ['work', 'communication', 'social', 'entertainment', 'learning', 'other'];
+export const CATEGORY_LABELS: Record<Category, string> = {
+  work: 'Work',
+  communication: 'Communication',
+  social: 'Social',
+  entertainment: 'Entertainment',
+  learning: 'Learning',
+  other: 'Other'
+};
+
+// Built-in category rules, applied after the user's own rules
+export const DEFAULT_CATEGORY_RULES: CategoryRule[] = [
+  // More specific Google and Microsoft domains first
+  { pattern: 'mail.google.com', category: 'communication' },
+  { pattern: 'meet.google.com', category: 'communication' },
+  { pattern: 'chat.google.com', category: 'communication' },
+  { pattern: 'docs.google.com', category: 'work' },
+  { pattern: 'drive.google.com', category: 'work' },
+  { pattern: 'calendar.google.com', category: 'work' },
+  { pattern: 'outlook.office.com', category: 'communication' },
+  { pattern: 'outlook.live.com', category: 'communication' },
+  { pattern: 'teams.microsoft.com', category: 'communication' },
+  { pattern: 'developer.mozilla.org', category: 'learning' },
+
+  { pattern: 'github.com', category: 'work' },
+  { pattern: 'gitlab.com', category: 'work' },
+  { pattern: 'bitbucket.org', category: 'work' },
+  { pattern: '*.atlassian.net', category: 'work' },
+  { pattern: 'notion.so', category: 'work' },
+  { pattern: 'figma.com', category: 'work' },
+  { pattern: 'linear.app', category: 'work' },
+  { pattern: 'trello.com', category: 'work' },
+  { pattern: 'asana.com', category: 'work' },
+  { pattern: 'office.com', category: 'work' },
+  { pattern: 'sharepoint.com', category: 'work' },
+
+  { pattern: 'slack.com', category: 'communication' },
+  { pattern: 'discord.com', category: 'communication' },
+  { pattern: 'zoom.us', category: 'communication' },
+  { pattern: 'web.whatsapp.com', category: 'communication' },
+  { pattern: 'web.telegram.org', category: 'communication' },
+
+  { pattern: 'facebook.com', category: 'social' },
+  { pattern: 'instagram.com', category: 'social' },
+  { pattern: 'x.com', category: 'social' },
+  { pattern: 'twitter.com', category: 'social' },
+  { pattern: 'linkedin.com', category: 'social' },
+  { pattern: 'reddit.com', category: 'social' },
+  { pattern: 'tiktok.com', category: 'social' },
+  { pattern: 'bsky.app', category: 'social' },
+  { pattern: 'pinterest.com', category: 'social' },
+
+  { pattern: 'youtube.com', category: 'entertainment' },
+  { pattern: 'netflix.com', category: 'entertainment' },
+  { pattern: 'twitch.tv', category: 'entertainment' },
+  { pattern: 'spotify.com', category: 'entertainment' },
+  { pattern: 'primevideo.com', category: 'entertainment' },
+  { pattern: 'disneyplus.com', category: 'entertainment' },
+
+  { pattern: 'wikipedia.org', category: 'learning' },
+  { pattern: 'stackoverflow.com', category: 'learning' },
+  { pattern: 'stackexchange.com', category: 'learning' },
+  { pattern: 'coursera.org', category: 'learning' },
+  { pattern: 'udemy.com', category: 'learning' },
+  { pattern: 'khanacademy.org', category: 'learning' },
+  { pattern: 'edx.org', category: 'learning' },
+  { pattern: 'duolingo.com', category: 'learning' }
+];
 
-// Tracking Configuration
-export const DEBOUNCE_THRESHOLD_MS = 5000; // 5 seconds - ignore visits shorter than this
-export const HEARTBEAT_INTERVAL_MS = 30000; // 30 seconds
-export const IDLE_THRESHOLD_SECONDS = 180; // 3 minutes
+// Default user settings, also used to fill in fields missing from older stored settings
+export const DEFAULT_SETTINGS: UserSettings = {
+  schemaVersion: STORAGE_SCHEMA_VERSION,
+  trackingMode: 'blocklist',
+  blocklist: [],
+  allowlist: [],
+  incognitoPolicy: 'never',
+  trackFullUrlDomains: [],
+  debounceSeconds: 5, // Ignore visits shorter than this
+  heartbeatSeconds: 30,
+  idleThresholdSeconds: 180, // 3 minutes
+  windowMinutes: 5,
+  historyRetentionDays: 30,
+  dayStartHour: 0,
+  urlRedaction: {
+    stripQuery: true,
+    stripFragment: true,
+    maskPathPatterns: []
+  },
+  badgeShowsSiteTime: false,
+  categoryRules: [],
+  serverProfiles: [
+    {
+      id: DEFAULT_SERVER_PROFILE_ID,
+      name: 'Default',
+      baseUrl: API_BASE_URL,
+      endpoints: DEFAULT_API_ENDPOINTS,
+      oauth: DEFAULT_OAUTH_SETTINGS
+    }
+  ]
+};
 
 // Auth Configuration
 export const TOKEN_REFRESH_BUFFER_MS = 60000; // Refresh token 1 minute before expiry
+export const TOKEN_REFRESH_RETRY_MS = 60000; // Retry a refresh that failed for lack of network
 
 // Debug Configuration
 export const DEBUG_LOGGING = true;
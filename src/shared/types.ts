@@ -7,10 +7,12 @@ export interface ActivityEvent {
   at: string; // ISO 8601 timestamp
 }
 
-// Window aggregation for 5-minute intervals
+// Window aggregation for fixed intervals (5 minutes by default)
 export interface ActivityWindow {
-  windowStart: string; // ISO 8601 timestamp, rounded to 5-min boundary
-  windowMinutes: number; // Always 5
+  id: string; // Deterministic per install and window start, lets the server upsert
+  revision: number; // Increases with every send of this window, the highest wins
+  windowStart: string; // ISO 8601 timestamp, rounded to window boundary
+  windowMinutes: number; // Window length in effect when the window was recorded
   isFinal: boolean; // True if window is complete and won't be updated
   activities: WindowActivity[];
 }
@@ -18,17 +20,66 @@ export interface ActivityWindow {
 export interface WindowActivity {
   domain: string;
   url?: string; // Most visited URL for this domain in the window
+  category?: Category; // Missing in windows recorded before categories existed
   activeSeconds: number;
   backgroundSeconds: number;
 }
 
+// Productivity classification of a domain
+export type Category = 'work' | 'communication' | 'social' | 'entertainment' | 'learning' | 'other';
+
+export interface CategoryRule {
+  pattern: string; // Domain including subdomains (e.g. "github.com"), or with wildcards (e.g. "*.atlassian.net")
+  category: Category;
+}
+
 export interface ActivityHeartbeat {
   heartbeatAt: string; // ISO 8601 timestamp
   isIdle: boolean;
-  windowStart?: string; // ISO 8601 timestamp, rounded to 5-min boundary
-  windowMinutes?: number; // Always 5 when present
+  device: DeviceInfo;
+  windowId?: string; // ActivityWindow.id when a window is present
+  revision?: number; // ActivityWindow.revision when a window is present
+  windowStart?: string; // ISO 8601 timestamp, rounded to window boundary
+  windowMinutes?: number; // Present together with windowStart
   isFinal?: boolean; // True if window is complete and won't be updated
   activities?: WindowActivity[]; // Activity data for the window
+  gap?: ActivityGap; // Sent once tracking resumes after a pause
+}
+
+// Why nothing was recorded for a while, so reports can tell it apart from inactivity
+export type GapReason = 'paused';
+
+export interface ActivityGap {
+  from: string; // ISO 8601 timestamp
+  to: string; // ISO 8601 timestamp
+  reason: GapReason;
+}
+
+// Minutes, until the next day starts, or until resumed by hand
+export type PauseDuration = number | 'tomorrow' | null;
+
+// Several finalized windows uploaded in one request (e.g. after an offline period)
+export interface ActivityHeartbeatBatch {
+  heartbeatAt: string; // ISO 8601 timestamp of the upload
+  isIdle: boolean; // Idle state of the newest window's heartbeat
+  device: DeviceInfo;
+  windows: BatchedWindow[];
+}
+
+// Window in a batch, with the heartbeat it was queued with
+export interface BatchedWindow extends ActivityWindow {
+  heartbeatAt: string; // ISO 8601 timestamp of the original heartbeat
+  isIdle: boolean;
+}
+
+// Heartbeat waiting in the outbox to be (re)sent
+export interface QueuedHeartbeat {
+  heartbeatAt: string; // ISO 8601 timestamp of the original heartbeat, kept on replay
+  isIdle: boolean;
+  window: ActivityWindow | null; // Finalized window, null for idle-only and gap heartbeats
+  gap?: ActivityGap;
+  queuedAt: number; // Unix timestamp in milliseconds
+  attempts: number; // Failed send attempts so far
 }
 
 // Tab tracking state
@@ -50,6 +101,15 @@ export interface TrackerState {
   sessionStartTime: number;
 }
 
+// Identifies this browser install, so the backend can tell devices apart
+export interface DeviceInfo {
+  deviceId: string; // Generated once per install, never synced
+  deviceLabel: string; // User-editable, e.g. "Work laptop"
+  browserName: string;
+  browserVersion: string;
+  extensionVersion: string;
+}
+
 // Auth types
 export interface AuthTokens {
   accessToken: string;
@@ -65,28 +125,151 @@ export interface LoginCredentials {
 export interface LoginResponse {
   accessToken: string;
   refreshToken: string;
-  expiresIn: number; // seconds until access token expires
+  expiresIn?: number; // seconds until access token expires; the JWT exp claim is used if missing
 }
 
 export interface RefreshResponse {
   accessToken: string;
-  expiresIn: number;
+  refreshToken?: string; // Set if the server rotates refresh tokens
+  expiresIn?: number;
 }
 
+// How the current session was established; decides where tokens are refreshed
+export type LoginMethod = 'password' | 'oauth' | 'pairing';
+
+// Pairing: the extension shows a short code that the user approves in the web app
+export interface PairingStartResponse {
+  pairingId: string; // Secret handle for polling, never shown
+  userCode: string; // Short code shown to the user, e.g. "WDJB-MJHT"
+  verificationUrl: string; // Where the user enters the code
+  expiresIn: number; // seconds until the code expires
+  interval?: number; // Minimum seconds between polls
+}
+
+export interface PairingTokenResponse extends LoginResponse {
+  userEmail: string;
+}
+
+export type PairingStatus = 'pending' | 'approved' | 'expired' | 'denied' | 'cancelled' | 'error';
+
+export interface PairingState {
+  status: PairingStatus;
+  userCode?: string;
+  verificationUrl?: string;
+  expiresAt?: number; // Unix timestamp in milliseconds
+  error?: string;
+}
+
+export interface OAuthSettings {
+  authorizeUrl: string; // Empty disables single sign-on for the profile
+  tokenUrl: string;
+  clientId: string;
+  scope: string;
+}
+
+// Token endpoint response as defined by RFC 6749
+export interface OAuthTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in?: number;
+  refresh_token?: string;
+  id_token?: string;
+}
+
+// Sent to extension pages, so it never carries tokens
 export interface AuthState {
   isAuthenticated: boolean;
   userEmail?: string;
-  tokens?: AuthTokens;
+  sessionExpired: boolean; // Signed out by the server; activity is still recorded for userEmail
+}
+
+// AES-GCM ciphertext and IV, base64 encoded
+export interface EncryptedSecret {
+  iv: string;
+  data: string;
+}
+
+// Per-profile auth in storage.local; the refresh token is encrypted with a key kept in IndexedDB
+export interface StoredAuth {
+  refreshToken?: EncryptedSecret; // Missing once the session expired
+  userEmail?: string; // Missing if the single sign-on provider didn't name the user
+  userSubject?: string; // The ID token's sub claim, for single sign-on sessions
+  loginMethod: LoginMethod;
+}
+
+// Per-profile access token in storage.session, gone when the browser closes
+export interface SessionAuth {
+  accessToken: string;
+  expiresAt: number;
 }
 
 // Storage types
+// 'allowlist' only tracks sites on the allowlist; the blocklist applies in both modes
+export type TrackingMode = 'blocklist' | 'allowlist';
+
+// How tabs in private windows are tracked, if the extension is allowed to run there
+export type IncognitoPolicy = 'never' | 'domain-only' | 'track';
+
 export interface UserSettings {
-  blocklist: string[];
+  schemaVersion: number; // STORAGE_SCHEMA_VERSION the settings were written with, 0 before versioning
+  trackingMode: TrackingMode;
+  blocklist: string[]; // URL patterns, see getUrlMatcher
+  allowlist: string[]; // URL patterns, only used in allowlist mode
+  incognitoPolicy: IncognitoPolicy;
   trackFullUrlDomains: string[];
+  debounceSeconds: number; // Visits shorter than this are not tracked
+  heartbeatSeconds: number; // Interval between heartbeats
+  idleThresholdSeconds: number; // Inactivity after which the user counts as idle
+  windowMinutes: number; // Aggregation window length, one of WINDOW_MINUTES_OPTIONS
+  historyRetentionDays: number; // Days of local history to keep
+  dayStartHour: number; // 0-23, local hour at which a new day begins for daily stats
+  urlRedaction: UrlRedactionRules; // Applied to URLs of full URL tracking domains
+  badgeShowsSiteTime: boolean; // Show minutes on the current site on the toolbar icon
+  categoryRules: CategoryRule[]; // Checked before the built-in rules, first match wins
+  serverProfiles: ServerProfile[]; // Backends to choose from, at least one
+}
+
+export interface ServerSettings {
+  baseUrl: string; // e.g. https://timeorganizer.example.com/api
+  endpoints: ApiEndpoints; // Paths relative to the base URL
+}
+
+export interface ServerProfile extends ServerSettings {
+  id: string;
+  name: string; // e.g. "Staging"
+  oauth: OAuthSettings; // Single sign-on via authorization code with PKCE
+}
+
+export interface ServerProfileSummary {
+  id: string;
+  name: string;
+  baseUrl: string;
+  ssoEnabled: boolean;
+}
+
+export interface ServerProfilesResponse {
+  profiles: ServerProfileSummary[];
+  activeProfileId: string;
+}
+
+export interface ApiEndpoints {
+  activity: string;
+  activityBatch: string;
+  login: string;
+  refresh: string;
+  logout: string;
+  pairing: string; // Requests a pairing code
+  pairingToken: string; // Polled until the code is approved
+}
+
+export interface UrlRedactionRules {
+  stripQuery: boolean;
+  stripFragment: boolean;
+  maskPathPatterns: string[]; // Regex patterns; matching path segments are replaced with '*'
 }
 
 export interface DailyStats {
-  date: string; // YYYY-MM-DD
+  date: string; // YYYY-MM-DD, local timezone, shifted by the day start hour
   totalActiveTime: number; // milliseconds
   totalBackgroundTime: number; // milliseconds
   domainStats: Record<string, DomainStat>;
@@ -94,20 +277,87 @@ export interface DailyStats {
 
 export interface DomainStat {
   domain: string;
+  category?: Category; // Category of the most recent window
   activeTime: number;
   backgroundTime: number;
   visits: number;
 }
 
+// Local history, one entry per day
+export interface HistoryDay extends DailyStats {
+  windows: HistoryWindow[]; // Acknowledged windows of the day, oldest first
+}
+
+export interface HistoryWindow {
+  windowStart: string; // ISO 8601 timestamp, unique across server profiles
+  windowMinutes: number;
+  activities: WindowActivity[];
+}
+
+export interface HistoryQuery {
+  from: string; // YYYY-MM-DD, inclusive
+  to: string; // YYYY-MM-DD, inclusive
+  includeWindows?: boolean; // Defaults to false, windows are the bulk of the data
+}
+
+export interface HourlyActivityQuery extends HistoryQuery {
+  domain?: string; // Only count this domain, all domains if omitted
+}
+
+// Seconds per hour of day (local time), 24 entries each
+export interface HourlyActivity {
+  date: string; // YYYY-MM-DD
+  activeSeconds: number[];
+  backgroundSeconds: number[];
+}
+
+export interface HistoryUsage {
+  days: number;
+  oldestDate?: string; // YYYY-MM-DD
+  bytes: number;
+  maxBytes: number;
+}
+
+// Backup of settings and local data, written and read on the options page
+export interface ExportData {
+  format: string; // Always EXPORT_FORMAT
+  version: number; // EXPORT_VERSION of the extension that wrote the file
+  exportedAt: string; // ISO 8601 timestamp
+  settings: UserSettings;
+  history: HistoryDay[]; // Oldest first, including windows
+  outboxes: Record<string, QueuedHeartbeat[]>; // Heartbeats not uploaded yet, per server profile id
+}
+
+// 'merge' adds to what is stored, 'replace' overwrites settings and history
+export type ImportMode = 'merge' | 'replace';
+
+export interface ImportRequest {
+  data: ExportData;
+  mode: ImportMode;
+}
+
+export interface ImportResult {
+  success: boolean;
+  error?: string;
+  importedDays: number;
+  queuedHeartbeats: number;
+  keptProfiles: string[]; // Names of current server profiles a replace kept for their pending data
+}
+
 export interface StoredData {
+  schemaVersion: number; // STORAGE_SCHEMA_VERSION the local data was migrated to
   settings: UserSettings;
-  dailyStats: DailyStats;
-  queuedEvents: ActivityEvent[];
+  historyIndex: string[]; // Dates stored under 'history:<date>' keys
+  activeProfileId: string; // Server profile in use on this device
+  [outboxKey: `outbox:${string}`]: QueuedHeartbeat[]; // Per server profile
   trackerState: {
+    schemaVersion: number;
     isPaused: boolean;
     sessionStartTime: number;
+    pausedAt?: number;
+    resumeAt?: number;
   };
-  auth: AuthState;
+  [authKey: `auth:${string}`]: StoredAuth; // Per server profile
 }
 
 // Messages between background and content scripts
@@ -118,11 +368,27 @@ export type MessageType =
   | 'GET_STATS'
   | 'GET_CURRENT_STATE'
   | 'TOGGLE_PAUSE'
+  | 'PAUSE_TRACKING'
+  | 'RESUME_TRACKING'
   | 'UPDATE_SETTINGS'
   | 'LOGIN'
+  | 'LOGIN_OAUTH'
+  | 'START_PAIRING'
+  | 'GET_PAIRING_STATE'
+  | 'CANCEL_PAIRING'
   | 'LOGOUT'
   | 'GET_AUTH_STATE'
-  | 'AUTH_STATE_CHANGED';
+  | 'AUTH_STATE_CHANGED'
+  | 'GET_DEVICE_INFO'
+  | 'UPDATE_DEVICE_LABEL'
+  | 'GET_HISTORY'
+  | 'GET_HISTORY_USAGE'
+  | 'GET_HOURLY_ACTIVITY'
+  | 'EXPORT_DATA'
+  | 'IMPORT_DATA'
+  | 'TEST_CONNECTION'
+  | 'GET_SERVER_PROFILES'
+  | 'SWITCH_SERVER_PROFILE';
 
 export interface Message {
   type: MessageType;
@@ -154,9 +420,11 @@ export interface StatsResponse {
     activeTab: TabState | null;
     sessionStartTime: number;
     currentSiteTime: number;
-    isPending: boolean; // True if tab is in debounce period (< 5 seconds)
+    isPending: boolean; // True if tab is in debounce period
     pendingDomain?: string; // Domain of pending tab
   };
-  currentWindow?: ActivityWindow; // Current 5-minute aggregation window
+  currentWindow?: ActivityWindow; // Current aggregation window
+  pendingHeartbeats: number; // Heartbeats waiting in the outbox for upload
+  resumeAt?: number; // Unix timestamp in milliseconds, while paused for a limited time
   status: 'tracking' | 'paused' | 'idle' | 'unauthenticated';
 }
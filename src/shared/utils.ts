@@ -1,4 +1,35 @@
-import type { UserSettings } from './types';
+import type {
+  Category,
+  CategoryRule,
+  DomainStat,
+  ExportData,
+  HistoryDay,
+  HistoryWindow,
+  IncognitoPolicy,
+  PauseDuration,
+  QueuedHeartbeat,
+  ServerProfile,
+  UserSettings,
+  UrlRedactionRules,
+  WindowActivity
+} from './types';
+import {
+  CATEGORIES,
+  DEFAULT_CATEGORY_RULES,
+  DEFAULT_SETTINGS,
+  EXPORT_FORMAT,
+  EXPORT_VERSION,
+  DEBOUNCE_MIN_SECONDS,
+  DEBOUNCE_MAX_SECONDS,
+  HEARTBEAT_MIN_SECONDS,
+  HEARTBEAT_MAX_SECONDS,
+  IDLE_MIN_SECONDS,
+  IDLE_MAX_SECONDS,
+  WINDOW_MINUTES_OPTIONS,
+  HISTORY_RETENTION_MIN_DAYS,
+  HISTORY_RETENTION_MAX_DAYS,
+  STORAGE_SCHEMA_VERSION
+} from './config';
 
 /**
  * Extract domain from a URL string, stripping www. prefix
@@ -19,14 +50,134 @@ export function extractDomain(url: string): string {
   }
 }
 
+export type UrlMatcher = (url: string) => boolean;
+
+type HostMatcher = (host: string) => boolean;
+
+// Compiled matchers by pattern list; settings rarely change, so this stays tiny
+const urlMatcherCache = new Map<string, UrlMatcher>();
+const URL_MATCHER_CACHE_SIZE = 8;
+
+const IPV4_CIDR_REGEX = /^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/;
+
 /**
- * Check if a domain is in the blocklist
+ * Matcher for blocklist and allowlist entries. Each pattern is one of:
+ * - a host, also matching its subdomains: "example.com", "localhost", or a whole TLD: "de"
+ * - a host with '*' wildcards: "*.atlassian.net", "192.168.*"
+ * - either of the above followed by a path prefix: "mail.google.com/mail/u/1"
+ * - an IPv4 range in CIDR notation: "10.0.0.0/8"
+ * - a regular expression between slashes, tested against the full URL: "/[?&]utm_/"
+ * Matchers are cached per pattern list, so checking every tab event or tick is cheap.
  */
-export function isDomainBlocked(domain: string, blocklist: string[]): boolean {
-  return blocklist.some(blocked => {
-    // Exact match or subdomain match
-    return domain === blocked || domain.endsWith('.' + blocked);
-  });
+export function getUrlMatcher(patterns: string[]): UrlMatcher {
+  const key = patterns.join('\n');
+  const cached = urlMatcherCache.get(key);
+  if (cached) return cached;
+
+  const rules = patterns
+    .filter(isValidUrlPattern)
+    .map(compileUrlPattern);
+  const matcher: UrlMatcher = url => {
+    const parsed = parseUrlForMatching(url);
+    return parsed !== null && rules.some(rule => rule(url, parsed.host, parsed.path));
+  };
+
+  if (urlMatcherCache.size >= URL_MATCHER_CACHE_SIZE) {
+    urlMatcherCache.clear();
+  }
+  urlMatcherCache.set(key, matcher);
+  return matcher;
+}
+
+/**
+ * Check if a string is a valid blocklist or allowlist pattern (see getUrlMatcher)
+ */
+export function isValidUrlPattern(pattern: string): boolean {
+  if (isRegexPattern(pattern)) {
+    return isValidPattern(pattern.slice(1, -1));
+  }
+
+  const cidr = pattern.match(IPV4_CIDR_REGEX);
+  if (cidr) {
+    return parseIpv4(cidr[1]) !== null && Number(cidr[2]) <= 32;
+  }
+
+  const slash = pattern.indexOf('/');
+  return isValidDomainPattern(slash === -1 ? pattern : pattern.slice(0, slash));
+}
+
+/**
+ * Check if a URL must not be tracked: it is on the blocklist or, in allowlist mode, not on the allowlist
+ */
+export function isUrlBlocked(
+  url: string,
+  settings: Pick<UserSettings, 'trackingMode' | 'blocklist' | 'allowlist'>
+): boolean {
+  if (getUrlMatcher(settings.blocklist)(url)) return true;
+  return settings.trackingMode === 'allowlist' && !getUrlMatcher(settings.allowlist)(url);
+}
+
+function isRegexPattern(pattern: string): boolean {
+  return pattern.length > 2 && pattern.startsWith('/') && pattern.endsWith('/');
+}
+
+function parseUrlForMatching(url: string): { host: string; path: string } | null {
+  try {
+    const urlObj = new URL(url);
+    return { host: urlObj.hostname.replace(/^www\./, ''), path: urlObj.pathname };
+  } catch {
+    return null;
+  }
+}
+
+function compileUrlPattern(pattern: string): (url: string, host: string, path: string) => boolean {
+  if (isRegexPattern(pattern)) {
+    const regex = new RegExp(pattern.slice(1, -1));
+    return url => regex.test(url);
+  }
+
+  const cidr = pattern.match(IPV4_CIDR_REGEX);
+  if (cidr) {
+    const bits = Number(cidr[2]);
+    const mask = bits === 0 ? 0 : (~0 << (32 - bits)) >>> 0;
+    const network = (parseIpv4(cidr[1])! & mask) >>> 0;
+    return (_url, host) => {
+      const address = parseIpv4(host);
+      return address !== null && ((address & mask) >>> 0) === network;
+    };
+  }
+
+  const slash = pattern.indexOf('/');
+  const matchesHost = compileHostPattern(slash === -1 ? pattern : pattern.slice(0, slash));
+  if (slash === -1) {
+    return (_url, host) => matchesHost(host);
+  }
+
+  // Path prefixes end at a segment boundary: "/mail/u/1" covers "/mail/u/1/" but not "/mail/u/10"
+  const prefix = pattern.slice(slash).replace(/\/+$/, '');
+  return (_url, host, path) => matchesHost(host)
+    && (prefix === '' || path === prefix || path.startsWith(prefix + '/'));
+}
+
+function compileHostPattern(pattern: string): HostMatcher {
+  if (!pattern.includes('*')) {
+    return host => host === pattern || host.endsWith('.' + pattern);
+  }
+
+  const regex = new RegExp(`^${pattern.split('*').map(escapeRegExp).join('.*')}$`);
+  return host => regex.test(host);
+}
+
+function parseIpv4(host: string): number | null {
+  const parts = host.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) {
+    return null;
+  }
+  return parts.reduce((address, part) => ((address << 8) | Number(part)) >>> 0, 0);
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+?^${}()|[\]\\]/g, '\\$&');
 }
 
 /**
@@ -38,6 +189,419 @@ export function shouldTrackFullUrl(domain: string, settings: UserSettings): bool
   });
 }
 
+/**
+ * Check if a domain matches a category rule pattern. Patterns without wildcards also
+ * match subdomains; '*' matches any run of characters, so "*.atlassian.net" matches
+ * every Atlassian cloud site but not atlassian.net itself.
+ */
+export function matchesDomainPattern(domain: string, pattern: string): boolean {
+  return compileHostPattern(pattern)(domain);
+}
+
+/**
+ * Check if a string is usable as a category rule pattern: a domain, optionally with '*' wildcards
+ */
+export function isValidDomainPattern(pattern: string): boolean {
+  return /^[a-z0-9*-]+(\.[a-z0-9*-]+)*$/.test(pattern) && pattern.replace(/\*/g, '') !== '';
+}
+
+/**
+ * Category of a domain: the user's rules win over the built-in ones, first match wins
+ */
+export function getCategory(domain: string, rules: CategoryRule[]): Category {
+  const rule = [...rules, ...DEFAULT_CATEGORY_RULES].find(rule => matchesDomainPattern(domain, rule.pattern));
+  return rule?.category ?? 'other';
+}
+
+function isCategoryRule(rule: unknown): rule is CategoryRule {
+  const candidate = rule as Partial<CategoryRule> | null;
+  return typeof candidate?.pattern === 'string'
+    && isValidDomainPattern(candidate.pattern)
+    && CATEGORIES.includes(candidate.category as Category);
+}
+
+/**
+ * Fill in settings fields missing from older stored settings with defaults. Values of the
+ * wrong type are replaced too, since synced settings may come from a device running another
+ * version. Layout changes are left to the settings migrations in src/background/migrations.ts.
+ */
+export function withDefaultSettings(stored?: Partial<UserSettings> | null): UserSettings {
+  // Clone so callers can mutate the result without touching the shared defaults
+  const defaults = structuredClone(DEFAULT_SETTINGS);
+  return {
+    ...defaults,
+    ...stored,
+    // Settings from a newer version keep ours: that version migrates them again once they're back
+    schemaVersion: stored
+      ? clampNumber(stored.schemaVersion, 0, STORAGE_SCHEMA_VERSION, 0)
+      : defaults.schemaVersion,
+    blocklist: toStringArray(stored?.blocklist, defaults.blocklist),
+    allowlist: toStringArray(stored?.allowlist, defaults.allowlist),
+    trackFullUrlDomains: toStringArray(stored?.trackFullUrlDomains, defaults.trackFullUrlDomains),
+    trackingMode: stored?.trackingMode === 'allowlist' ? 'allowlist' : 'blocklist',
+    incognitoPolicy: isIncognitoPolicy(stored?.incognitoPolicy) ? stored.incognitoPolicy : defaults.incognitoPolicy,
+    debounceSeconds: clampNumber(
+      stored?.debounceSeconds,
+      DEBOUNCE_MIN_SECONDS,
+      DEBOUNCE_MAX_SECONDS,
+      defaults.debounceSeconds
+    ),
+    heartbeatSeconds: clampNumber(
+      stored?.heartbeatSeconds,
+      HEARTBEAT_MIN_SECONDS,
+      HEARTBEAT_MAX_SECONDS,
+      defaults.heartbeatSeconds
+    ),
+    idleThresholdSeconds: clampNumber(
+      stored?.idleThresholdSeconds,
+      IDLE_MIN_SECONDS,
+      IDLE_MAX_SECONDS,
+      defaults.idleThresholdSeconds
+    ),
+    windowMinutes: isWindowMinutesOption(stored?.windowMinutes)
+      ? stored.windowMinutes
+      : defaults.windowMinutes,
+    dayStartHour: clampNumber(stored?.dayStartHour, 0, 23, defaults.dayStartHour),
+    historyRetentionDays: clampNumber(
+      stored?.historyRetentionDays,
+      HISTORY_RETENTION_MIN_DAYS,
+      HISTORY_RETENTION_MAX_DAYS,
+      defaults.historyRetentionDays
+    ),
+    urlRedaction: {
+      stripQuery: toBoolean(stored?.urlRedaction?.stripQuery, defaults.urlRedaction.stripQuery),
+      stripFragment: toBoolean(stored?.urlRedaction?.stripFragment, defaults.urlRedaction.stripFragment),
+      maskPathPatterns: toStringArray(stored?.urlRedaction?.maskPathPatterns, defaults.urlRedaction.maskPathPatterns)
+    },
+    badgeShowsSiteTime: toBoolean(stored?.badgeShowsSiteTime, defaults.badgeShowsSiteTime),
+    categoryRules: Array.isArray(stored?.categoryRules)
+      ? stored.categoryRules.filter(isCategoryRule)
+      : defaults.categoryRules,
+    serverProfiles: withDefaultServerProfiles(stored)
+  };
+}
+
+/**
+ * Complete stored server profiles, falling back to the default profile if there are none
+ */
+function withDefaultServerProfiles(stored?: Partial<UserSettings> | null): ServerProfile[] {
+  const defaultProfile = DEFAULT_SETTINGS.serverProfiles[0];
+  const profiles: Array<Partial<ServerProfile>> = stored?.serverProfiles?.length
+    ? stored.serverProfiles
+    : [defaultProfile];
+
+  const completed = profiles
+    .filter(profile => typeof profile.id === 'string' && profile.id)
+    .map(profile => ({
+      id: profile.id!,
+      name: profile.name?.trim() || 'Unnamed',
+      baseUrl: isValidServerUrl(profile.baseUrl) ? profile.baseUrl : defaultProfile.baseUrl,
+      endpoints: {
+        ...defaultProfile.endpoints,
+        ...profile.endpoints
+      },
+      oauth: {
+        ...defaultProfile.oauth,
+        ...profile.oauth
+      }
+    }));
+  return completed.length > 0 ? completed : [structuredClone(defaultProfile)];
+}
+
+/**
+ * Combine imported settings with the current ones: lists are joined, server profiles
+ * that don't exist yet are added, everything else keeps its current value
+ */
+export function mergeSettings(current: UserSettings, imported: UserSettings): UserSettings {
+  const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+  return {
+    ...current,
+    blocklist: union(current.blocklist, imported.blocklist),
+    allowlist: union(current.allowlist, imported.allowlist),
+    trackFullUrlDomains: union(current.trackFullUrlDomains, imported.trackFullUrlDomains),
+    urlRedaction: {
+      ...current.urlRedaction,
+      maskPathPatterns: union(current.urlRedaction.maskPathPatterns, imported.urlRedaction.maskPathPatterns)
+    },
+    categoryRules: [
+      ...current.categoryRules,
+      ...imported.categoryRules.filter(rule => !current.categoryRules.some(r => r.pattern === rule.pattern))
+    ],
+    serverProfiles: [
+      ...current.serverProfiles,
+      ...imported.serverProfiles.filter(profile => !current.serverProfiles.some(p => p.id === profile.id))
+    ]
+  };
+}
+
+/**
+ * Validate a parsed backup file and complete its settings.
+ * Throws an error with a message for the user if the file can't be imported.
+ */
+export function parseExportData(value: unknown): ExportData {
+  if (!isRecord(value) || value.format !== EXPORT_FORMAT) {
+    throw new Error('Not a TimeOrganizer backup file');
+  }
+  if (typeof value.version !== 'number' || value.version < 1) {
+    throw new Error('Backup file has no valid version');
+  }
+  if (value.version > EXPORT_VERSION) {
+    throw new Error('Backup was created by a newer version of the extension');
+  }
+
+  const settings = value.settings;
+  const lists = ['blocklist', 'allowlist', 'trackFullUrlDomains'];
+  if (!isRecord(settings) || !lists.every(key => settings[key] === undefined || isStringArray(settings[key]))) {
+    throw new Error('Backup contains invalid settings');
+  }
+  if (!Array.isArray(value.history) || !value.history.every(isHistoryDay)) {
+    throw new Error('Backup contains invalid history');
+  }
+
+  const outboxes = value.outboxes ?? {};
+  if (!isRecord(outboxes) || !Object.values(outboxes).every(entries =>
+    Array.isArray(entries) && entries.every(isQueuedHeartbeat)
+  )) {
+    throw new Error('Backup contains invalid queued heartbeats');
+  }
+
+  return {
+    format: EXPORT_FORMAT,
+    version: value.version,
+    exportedAt: typeof value.exportedAt === 'string' ? value.exportedAt : '',
+    settings: withDefaultSettings(settings as Partial<UserSettings>),
+    history: value.history,
+    outboxes: outboxes as Record<string, QueuedHeartbeat[]>
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStringArray(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string');
+}
+
+function isWindowActivity(value: unknown): value is WindowActivity {
+  return isRecord(value)
+    && typeof value.domain === 'string'
+    && typeof value.activeSeconds === 'number'
+    && typeof value.backgroundSeconds === 'number';
+}
+
+function isHistoryWindow(value: unknown): value is HistoryWindow {
+  return isRecord(value)
+    && typeof value.windowStart === 'string'
+    && typeof value.windowMinutes === 'number'
+    && Array.isArray(value.activities)
+    && value.activities.every(isWindowActivity);
+}
+
+function isDomainStat(value: unknown): value is DomainStat {
+  return isRecord(value)
+    && typeof value.domain === 'string'
+    && typeof value.activeTime === 'number'
+    && typeof value.backgroundTime === 'number'
+    && typeof value.visits === 'number';
+}
+
+function isHistoryDay(value: unknown): value is HistoryDay {
+  return isRecord(value)
+    && typeof value.date === 'string'
+    && /^\d{4}-\d{2}-\d{2}$/.test(value.date)
+    && typeof value.totalActiveTime === 'number'
+    && typeof value.totalBackgroundTime === 'number'
+    && isRecord(value.domainStats)
+    && Object.values(value.domainStats).every(isDomainStat)
+    && Array.isArray(value.windows)
+    && value.windows.every(isHistoryWindow);
+}
+
+function isQueuedHeartbeat(value: unknown): value is QueuedHeartbeat {
+  if (!isRecord(value)) return false;
+
+  const window = value.window;
+  const isWindow = window === null || (
+    isRecord(window)
+    && isHistoryWindow(window)
+    && typeof window.id === 'string'
+    && typeof window.revision === 'number'
+  );
+  return isWindow
+    && typeof value.heartbeatAt === 'string'
+    && typeof value.isIdle === 'boolean'
+    && typeof value.queuedAt === 'number'
+    && typeof value.attempts === 'number';
+}
+
+function toStringArray(value: unknown, fallback: string[]): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : fallback;
+}
+
+function toBoolean(value: unknown, fallback: boolean): boolean {
+  return typeof value === 'boolean' ? value : fallback;
+}
+
+function isIncognitoPolicy(value: unknown): value is IncognitoPolicy {
+  return value === 'never' || value === 'domain-only' || value === 'track';
+}
+
+function isWindowMinutesOption(value: unknown): value is number {
+  return typeof value === 'number' && WINDOW_MINUTES_OPTIONS.includes(value);
+}
+
+/**
+ * Check if a string is an absolute http(s) URL usable as API base URL
+ */
+export function isValidServerUrl(url: unknown): url is string {
+  if (typeof url !== 'string') return false;
+  try {
+    const urlObj = new URL(url);
+    return urlObj.protocol === 'https:' || urlObj.protocol === 'http:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Host permission pattern covering a server URL. Ports are left out since
+ * Firefox doesn't accept them in match patterns.
+ */
+export function getServerOriginPattern(url: string): string {
+  const urlObj = new URL(url);
+  return `${urlObj.protocol}//${urlObj.hostname}/*`;
+}
+
+/**
+ * Claims of a JWT, without verifying its signature - only for display and scheduling,
+ * never for trust decisions
+ */
+export function decodeJwtPayload(token: string): Record<string, unknown> | null {
+  try {
+    const payload = token.split('.')[1];
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const json = decodeURIComponent(
+      Array.from(atob(base64), char => '%' + char.charCodeAt(0).toString(16).padStart(2, '0')).join('')
+    );
+    return JSON.parse(json);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check if a string compiles as a regular expression
+ */
+export function isValidPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Compiled mask patterns by pattern list, like urlMatcherCache
+const maskPathRegexCache = new Map<string, RegExp[]>();
+const MASK_PATH_REGEX_CACHE_SIZE = 8;
+
+function getMaskPathRegexes(patterns: string[]): RegExp[] {
+  const key = patterns.join('\n');
+  const cached = maskPathRegexCache.get(key);
+  if (cached) return cached;
+
+  const regexes = patterns
+    .filter(isValidPattern)
+    .map(pattern => new RegExp(pattern));
+
+  if (maskPathRegexCache.size >= MASK_PATH_REGEX_CACHE_SIZE) {
+    maskPathRegexCache.clear();
+  }
+  maskPathRegexCache.set(key, regexes);
+  return regexes;
+}
+
+/**
+ * Apply redaction rules to a URL: strip query string and fragment,
+ * and mask path segments that match any of the configured patterns.
+ * Runs on every tracking tick, so the patterns are only compiled once per list.
+ */
+export function redactUrl(url: string, rules: UrlRedactionRules): string {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return url;
+  }
+
+  if (rules.stripQuery) {
+    urlObj.search = '';
+  }
+  if (rules.stripFragment) {
+    urlObj.hash = '';
+  }
+
+  const patterns = getMaskPathRegexes(rules.maskPathPatterns);
+
+  if (patterns.length > 0) {
+    urlObj.pathname = urlObj.pathname
+      .split('/')
+      .map(segment => {
+        if (!segment) return segment;
+        const decoded = safeDecodeURIComponent(segment);
+        return patterns.some(pattern => pattern.test(decoded)) ? '*' : segment;
+      })
+      .join('/');
+  }
+
+  return urlObj.toString();
+}
+
+function safeDecodeURIComponent(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+/**
+ * Detect browser name and version from a user agent string
+ */
+export function parseBrowser(userAgent: string): { name: string; version: string } {
+  // Order matters - Edge and Opera UAs also contain "Chrome"
+  const browsers: Array<[string, RegExp]> = [
+    ['Firefox', /Firefox\/([\d.]+)/],
+    ['Edge', /Edg\/([\d.]+)/],
+    ['Opera', /OPR\/([\d.]+)/],
+    ['Chrome', /Chrome\/([\d.]+)/],
+    ['Safari', /Version\/([\d.]+).*Safari/]
+  ];
+
+  for (const [name, pattern] of browsers) {
+    const match = userAgent.match(pattern);
+    if (match) {
+      return { name, version: match[1] };
+    }
+  }
+
+  return { name: 'Unknown', version: '' };
+}
+
+/**
+ * Detect operating system name from a user agent string
+ */
+export function parseOperatingSystem(userAgent: string): string {
+  if (/CrOS/.test(userAgent)) return 'ChromeOS';
+  if (/Android/.test(userAgent)) return 'Android';
+  if (/Windows/.test(userAgent)) return 'Windows';
+  if (/Mac OS X|Macintosh/.test(userAgent)) return 'macOS';
+  if (/Linux/.test(userAgent)) return 'Linux';
+  return 'Unknown OS';
+}
+
 /**
  * Get current ISO 8601 timestamp
  */
@@ -45,12 +609,62 @@ export function getTimestamp(): string {
   return new Date().toISOString();
 }
 
+/**
+ * Get the YYYY-MM-DD date string of a date in the local timezone.
+ * With a day start hour, times before that hour count towards the previous day.
+ */
+export function getDateString(date: Date, dayStartHour: number = 0): string {
+  const shifted = new Date(date.getTime());
+  shifted.setHours(shifted.getHours() - dayStartHour);
+
+  const year = shifted.getFullYear();
+  const month = String(shifted.getMonth() + 1).padStart(2, '0');
+  const day = String(shifted.getDate()).padStart(2, '0');
+  return `${year}-${month}-${day}`;
+}
+
 /**
  * Get today's date string in YYYY-MM-DD format
  */
-export function getTodayDateString(): string {
-  const now = new Date();
-  return now.toISOString().split('T')[0];
+export function getTodayDateString(dayStartHour: number = 0): string {
+  return getDateString(new Date(), dayStartHour);
+}
+
+/**
+ * Unix timestamp in ms at which a YYYY-MM-DD day begins in the local timezone
+ */
+export function getDayStartTime(date: string, dayStartHour: number = 0): number {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day, dayStartHour).getTime();
+}
+
+/**
+ * Unix timestamp in ms at which a pause ends, null if it lasts until resumed
+ */
+export function getPauseEnd(duration: PauseDuration, dayStartHour: number = 0): number | null {
+  if (duration === null) return null;
+  if (duration === 'tomorrow') {
+    return getDayStartTime(shiftDateString(getTodayDateString(dayStartHour), 1), dayStartHour);
+  }
+  return Date.now() + duration * 60 * 1000;
+}
+
+/**
+ * Move a YYYY-MM-DD date string by a number of days
+ */
+export function shiftDateString(date: string, days: number): string {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split('T')[0];
+}
+
+/**
+ * Clamp a number into a range, falling back to a default for non-numbers
+ */
+export function clampNumber(value: unknown, min: number, max: number, fallback: number): number {
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    return fallback;
+  }
+  return Math.min(max, Math.max(min, Math.round(value)));
 }
 
 /**
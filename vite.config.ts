@@ -2,6 +2,8 @@ import { defineConfig } from 'vite';
 import webExtension from 'vite-plugin-web-extension';
 import { resolve } from 'path';
 import { copyFileSync, mkdirSync, existsSync } from 'fs';
+import { API_BASE_URL } from './src/shared/config';
+import { getServerOriginPattern } from './src/shared/utils';
 
 const browser = process.env.BROWSER || 'chrome';
 
@@ -15,11 +17,13 @@ function copyIconsPlugin() {
         mkdirSync(outDir, { recursive: true });
       }
       const sizes = [16, 32, 48, 128];
-      for (const size of sizes) {
-        const src = `icons/icon${size}.png`;
-        const dest = `${outDir}/icon${size}.png`;
-        if (existsSync(src)) {
-          copyFileSync(src, dest);
+      for (const suffix of ['', '-paused']) {
+        for (const size of sizes) {
+          const src = `icons/icon${size}${suffix}.png`;
+          const dest = `${outDir}/icon${size}${suffix}.png`;
+          if (existsSync(src)) {
+            copyFileSync(src, dest);
+          }
         }
       }
     }
@@ -40,12 +44,20 @@ export default defineConfig({
             'activeTab',
             'storage',
             'idle',
-            'alarms'
+            'alarms',
+            'identity',
+            'notifications',
+            'contextMenus'
           ],
-          host_permissions: ['<all_urls>'],
+          // Other servers configured on the options page are requested at runtime
+          host_permissions: [getServerOriginPattern(API_BASE_URL)],
+          optional_host_permissions: ['https://*/*', 'http://*/*'],
           background: browser === 'firefox'
             ? { scripts: ['src/background/index.ts'], type: 'module' as const }
             : { service_worker: 'src/background/index.ts', type: 'module' as const },
+          // One background context for normal and private windows (Firefox doesn't support 'split'),
+          // so the incognito policy setting decides what happens to private tabs
+          incognito: 'spanning' as const,
           content_scripts: [
             {
               matches: ['<all_urls>'],
@@ -67,6 +79,17 @@ export default defineConfig({
               '128': 'icons/icon128.png'
             }
           },
+          // Names must match the COMMAND_* constants in src/background/menus.ts
+          commands: {
+            'toggle-pause': {
+              suggested_key: { default: 'Alt+Shift+P' },
+              description: 'Pause or resume tracking'
+            },
+            'block-current-site': {
+              suggested_key: { default: 'Alt+Shift+B' },
+              description: "Don't track the current site"
+            }
+          },
           options_ui: {
             page: 'src/options/options.html',
             open_in_tab: true
@@ -94,6 +117,8 @@ export default defineConfig({
         return baseManifest;
       },
       browser,
+      // Extension pages not referenced from the manifest
+      additionalInputs: ['src/dashboard/dashboard.html'],
     }),
     copyIconsPlugin(),
   ],